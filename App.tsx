@@ -1,132 +1,113 @@
 
 import React, { useState, useRef, useMemo, useEffect, useCallback } from 'react';
-import { PassportData, ProcessingStatus, SortConfig, SortOrder } from './types';
-import { extractPassportDetails } from './services/geminiService';
-import PassportCard from './components/PassportCard';
+import { ExportDateFormat, ExportFormat, ExportTemplate, ExtractionSettings, FilterState, FilterView, Manifest, ManifestDetails, PassengerPolicy, PassportData, PreprocessSettings, ProcessingStatus, SortConfig, SortOrder, ValiditySettings } from './types';
+import { createExtractionProvider, loadExtractionSettings, saveExtractionSettings } from './services/extractionProvider';
+import { mrzTextToFile } from './services/mrzTextProvider';
+import { ingestFiles, needsIngestion, SkippedFile } from './services/ingestionService';
+import { loadPreprocessSettings, savePreprocessSettings, withPreprocessing } from './services/preprocessService';
+import { verifyAgainstMrz } from './services/mrzService';
+import { centuryFor, DATE_FIELDS, isDateField, loadDateDisplayFormat, normaliseDate, saveDateDisplayFormat } from './services/dateService';
+import { QueueControls, runQueue } from './services/extractionQueue';
+import { createId, createManifest, describeManifest, duplicateManifest, manifestFileName } from './services/manifestService';
+import { buildCsv, buildJson, buildPrintableHtml, downloadFile, printHtml } from './services/exportFormats';
+import { buildExportSheet, loadExportTemplates, loadSelectedTemplateId, saveExportTemplates, saveSelectedTemplateId, templateFileName, templateSheetName } from './services/exportTemplates';
+import { SessionRestoreError } from './services/errors';
+import { clearSession, loadPersistImages, loadSession, pruneImages, savePersistImages, saveSession } from './services/storageService';
+import { getSourceImage, rememberSourceImage, unclaimedImageIds } from './services/sourceImages';
+import { countIssues, validateManifest } from './services/validationService';
+import { ImportedRow } from './services/importService';
+import { carrierCode } from './services/gdsService';
+import { applyFilters, EMPTY_FILTERS, loadFilterViews, saveFilterViews } from './services/filterService';
+import { commitHistory, emptyHistory, fieldLabel, HistoryState, jumpTo, recordLabel, redoHistory, undoHistory } from './services/historyService';
+import { findAllDuplicates, findDuplicates } from './services/duplicateService';
+import { adoptGivenValues, applyPassengerPolicy, applyPolicyToList, derivePassenger, loadPassengerPolicy, savePassengerPolicy } from './services/passengerPolicy';
+import { checkManifestValidity, loadValiditySettings, saveValiditySettings, VALIDITY_LABELS } from './services/validityService';
+import PassportCardList from './components/PassportCardList';
 import DetailEditor from './components/DetailEditor';
+import ImportDialog from './components/ImportDialog';
+import DocsPanel from './components/DocsPanel';
+import ExportDialog from './components/ExportDialog';
+import DuplicateResolver from './components/DuplicateResolver';
 import PassportTable from './components/PassportTable';
+import FilterBar from './components/FilterBar';
+import SettingsPanel from './components/SettingsPanel';
+import ManifestList from './components/ManifestList';
+import ManifestEditor from './components/ManifestEditor';
+import RescanReview from './components/RescanReview';
+import HistoryPanel from './components/HistoryPanel';
+import CameraScanner from './components/CameraScanner';
 
 // Add global declaration for XLSX since it's loaded via CDN
 declare const XLSX: any;
 
-type DateField = 'dateOfBirth' | 'issueDate' | 'expiryDate';
-
-interface FilterState {
-  field: DateField;
-  startDate: string;
-  endDate: string;
-}
-
-interface HistoryState {
-  past: PassportData[][];
-  present: PassportData[];
-  future: PassportData[][];
-}
-
 const App: React.FC = () => {
   // History State Management
-  const [history, setHistory] = useState<HistoryState>({
-    past: [],
-    present: [],
-    future: []
-  });
+  const [history, setHistory] = useState<HistoryState>(emptyHistory);
+  const [showHistory, setShowHistory] = useState(false);
 
   const passports = history.present;
 
+  // The active manifest's passengers live in the history stack above; the list holds every manifest
+  const [manifests, setManifests] = useState<Manifest[]>(() => [createManifest('Active Manifest')]);
+  const [activeManifestId, setActiveManifestId] = useState<string | null>(null);
+  const [editingManifestId, setEditingManifestId] = useState<string | null>(null);
+  const activeManifest = manifests.find(m => m.id === activeManifestId) || manifests[0];
+
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [view, setView] = useState<'dashboard' | 'manifest'>('dashboard');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<FilterState>({
-    field: 'expiryDate',
-    startDate: '',
-    endDate: ''
-  });
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS);
+  const [filterViews, setFilterViews] = useState<FilterView[]>(loadFilterViews);
   const [sortConfig, setSortConfig] = useState<SortConfig>({ key: 'lastName', order: 'asc' });
+  const [showSettings, setShowSettings] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showDocs, setShowDocs] = useState(false);
+  const [showAddMenu, setShowAddMenu] = useState(false);
+  const [showCamera, setShowCamera] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  // Set when exporting only the rows selected in the table
+  const [exportIds, setExportIds] = useState<string[] | null>(null);
+  const [exportTemplates, setExportTemplates] = useState<ExportTemplate[]>(loadExportTemplates);
+  const [exportTemplateId, setExportTemplateId] = useState(loadSelectedTemplateId);
+  const [extractionSettings, setExtractionSettings] = useState<ExtractionSettings>(loadExtractionSettings);
+  const [persistImages, setPersistImages] = useState(loadPersistImages);
+  const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(loadPreprocessSettings);
+  const extractionProvider = useMemo(
+    () => withPreprocessing(createExtractionProvider(extractionSettings), preprocessSettings, persistImages),
+    [extractionSettings, preprocessSettings, persistImages]
+  );
+  const [validitySettings, setValiditySettings] = useState<ValiditySettings>(loadValiditySettings);
+  const [passengerPolicy, setPassengerPolicy] = useState<PassengerPolicy>(loadPassengerPolicy);
+  const [dateFormat, setDateFormat] = useState<ExportDateFormat>(loadDateDisplayFormat);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [restoredCount, setRestoredCount] = useState(0);
+  // Set when the saved session exists but couldn't be read; saving stays off until the user starts fresh
+  const [restoreError, setRestoreError] = useState<string | null>(null);
 
   const [processedCount, setProcessedCount] = useState(0);
   const [totalCount, setTotalCount] = useState(0);
   const [batchStartTime, setBatchStartTime] = useState<number | null>(null);
   const [currentTime, setCurrentTime] = useState(Date.now());
+  const [isPaused, setIsPaused] = useState(false);
+  const [pausedAt, setPausedAt] = useState<number | null>(null);
+  const [queueNotice, setQueueNotice] = useState<string | null>(null);
+  const [skippedFiles, setSkippedFiles] = useState<SkippedFile[]>([]);
+  const queueRef = useRef<QueueControls<File> | null>(null);
+  // Files and placeholders of the running batch, indexed like its queue; later uploads are appended
+  const batchRef = useRef<{ files: File[]; placeholders: PassportData[] } | null>(null);
+  const [resolvingPair, setResolvingPair] = useState<{ leftId: string; rightId: string } | null>(null);
+  const [rescanReview, setRescanReview] = useState<{ id: string; after: Partial<PassportData>; replacement?: File } | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  // Helper to calculate age, title, and type
-  const deriveAttributes = (dob: string, gender: string): { title: string, passengerType: 'ADULT' | 'CHILD' | 'INFANT' } => {
-    if (!dob) return { title: '', passengerType: 'ADULT' };
-    
-    // Parse DD/MM/YYYY
-    const parts = dob.split('/');
-    if (parts.length !== 3) return { title: '', passengerType: 'ADULT' };
-    
-    const birthDate = new Date(parseInt(parts[2]), parseInt(parts[1]) - 1, parseInt(parts[0]));
-    const today = new Date();
-    
-    let age = today.getFullYear() - birthDate.getFullYear();
-    const m = today.getMonth() - birthDate.getMonth();
-    if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
-      age--;
-    }
-
-    let pType: 'ADULT' | 'CHILD' | 'INFANT' = 'ADULT';
-    if (age < 2) pType = 'INFANT';
-    else if (age < 12) pType = 'CHILD';
-    else pType = 'ADULT';
-
-    let title = '';
-    const isMale = gender?.toUpperCase() === 'MALE';
-    
-    if (age < 2) {
-      title = isMale ? 'MSTR' : 'MISS';
-    } else {
-      if (isMale) {
-        title = 'MR';
-      } else {
-        title = age > 30 ? 'MRS' : 'MS';
-      }
-    }
-
-    return { title, passengerType: pType };
-  };
-
-  // Helper to update state with history preservation
-  const setPassportsWithHistory = useCallback((newPassports: PassportData[] | ((prev: PassportData[]) => PassportData[]), shouldClearFuture = true) => {
-    setHistory(prev => {
-      const nextPresent = typeof newPassports === 'function' ? newPassports(prev.present) : newPassports;
-      if (nextPresent === prev.present) return prev;
-      return {
-        past: [...prev.past, prev.present].slice(-50),
-        present: nextPresent,
-        future: shouldClearFuture ? [] : prev.future
-      };
-    });
-  }, []);
-
-  const undo = useCallback(() => {
-    setHistory(prev => {
-      if (prev.past.length === 0) return prev;
-      const previous = prev.past[prev.past.length - 1];
-      const newPast = prev.past.slice(0, prev.past.length - 1);
-      return {
-        past: newPast,
-        present: previous,
-        future: [prev.present, ...prev.future]
-      };
-    });
+  // Records a labelled history entry. Changes sharing a mergeKey in a row (typing into one field) become one entry.
+  const setPassportsWithHistory = useCallback((newPassports: PassportData[] | ((prev: PassportData[]) => PassportData[]), label: string, mergeKey?: string) => {
+    setHistory(prev => commitHistory(prev, typeof newPassports === 'function' ? newPassports(prev.present) : newPassports, label, mergeKey));
   }, []);
 
-  const redo = useCallback(() => {
-    setHistory(prev => {
-      if (prev.future.length === 0) return prev;
-      const next = prev.future[0];
-      const newFuture = prev.future.slice(1);
-      return {
-        past: [...prev.past, prev.present],
-        present: next,
-        future: newFuture
-      };
-    });
-  }, []);
+  const undo = useCallback(() => setHistory(undoHistory), []);
+  const redo = useCallback(() => setHistory(redoHistory), []);
 
   // Keyboard Shortcuts
   useEffect(() => {
@@ -149,106 +130,504 @@ const App: React.FC = () => {
     return () => clearInterval(interval);
   }, [status]);
 
-  const checkIsDuplicate = (details: Partial<PassportData>, currentId: string, list: PassportData[]) => {
-    if (!details.passportNumber && (!details.firstName || !details.lastName)) return false;
-    return list.some(p => {
-      if (p.id === currentId) return false;
-      if (p.status !== 'completed') return false;
-      const samePassport = details.passportNumber && p.passportNumber && 
-        details.passportNumber.trim().toUpperCase() === p.passportNumber.trim().toUpperCase();
-      const sameName = details.firstName && details.lastName && p.firstName && p.lastName &&
-        details.firstName.trim().toUpperCase() === p.firstName.trim().toUpperCase() &&
-        details.lastName.trim().toUpperCase() === p.lastName.trim().toUpperCase();
-      return samePassport || sameName;
+  useEffect(() => {
+    saveExtractionSettings(extractionSettings);
+  }, [extractionSettings]);
+
+  useEffect(() => {
+    savePersistImages(persistImages);
+  }, [persistImages]);
+
+  useEffect(() => {
+    savePreprocessSettings(preprocessSettings);
+  }, [preprocessSettings]);
+
+  useEffect(() => {
+    saveValiditySettings(validitySettings);
+  }, [validitySettings]);
+
+  useEffect(() => {
+    savePassengerPolicy(passengerPolicy);
+  }, [passengerPolicy]);
+
+  useEffect(() => {
+    saveDateDisplayFormat(dateFormat);
+  }, [dateFormat]);
+
+  useEffect(() => {
+    saveExportTemplates(exportTemplates);
+  }, [exportTemplates]);
+
+  useEffect(() => {
+    saveSelectedTemplateId(exportTemplateId);
+  }, [exportTemplateId]);
+
+  useEffect(() => {
+    saveFilterViews(filterViews);
+  }, [filterViews]);
+
+  // Re-derive types and titles when the travel dates, airline or policy change. Opening a manifest
+  // only records its key, so restored or switched-to passengers are left exactly as they were saved.
+  const policyKeyRef = useRef<{ manifestId: string; key: string } | null>(null);
+  useEffect(() => {
+    const key = JSON.stringify([activeManifest.departureDate, activeManifest.returnDate, activeManifest.airline, passengerPolicy]);
+    const last = policyKeyRef.current;
+    policyKeyRef.current = { manifestId: activeManifest.id, key };
+    if (!last || last.manifestId !== activeManifest.id || last.key === key) return;
+    setHistory(prev => {
+      const next = applyPolicyToList(prev.present, activeManifest, passengerPolicy);
+      return next === prev.present ? prev : { ...prev, present: next };
+    });
+  }, [activeManifest.id, activeManifest.departureDate, activeManifest.returnDate, activeManifest.airline, passengerPolicy]);
+
+  // The policy covers every manifest, so the others are re-derived too and export under the new rules.
+  // The open one is handled above, through its passenger list.
+  const policyRef = useRef(passengerPolicy);
+  useEffect(() => {
+    if (policyRef.current === passengerPolicy) return;
+    policyRef.current = passengerPolicy;
+    setManifests(prev => prev.map(m => {
+      if (m.id === activeManifest.id) return m;
+      const passports = applyPolicyToList(m.passports, m, passengerPolicy);
+      return passports === m.passports ? m : { ...m, passports, updatedAt: Date.now() };
+    }));
+  }, [passengerPolicy]);
+
+  // Restore the last session once on startup
+  useEffect(() => {
+    loadSession()
+      .then(session => {
+        if (session && session.manifests.length > 0) {
+          const active = session.manifests.find(m => m.id === session.activeManifestId) || session.manifests[0];
+          setManifests(session.manifests);
+          setActiveManifestId(active.id);
+          setHistory(emptyHistory(active.passports));
+          setRestoredCount(session.manifests.reduce((sum, m) => sum + m.passports.length, 0));
+        }
+        setIsHydrated(true);
+      })
+      .catch(err => {
+        console.error('Session restore failed:', err);
+        setRestoreError(err instanceof SessionRestoreError ? err.message : 'Your saved manifests could not be loaded.');
+      });
+  }, []);
+
+  // Copy edits to the active manifest's passengers back into the manifest list
+  useEffect(() => {
+    setManifests(prev => prev.map(m =>
+      m.id === activeManifest.id && m.passports !== passports ? { ...m, passports, updatedAt: Date.now() } : m
+    ));
+  }, [passports, activeManifest.id]);
+
+  // Save once changes settle, but never before a restore has finished (or after one failed), or it would
+  // overwrite the saved session. Waiting out a burst of typing keeps edits responsive in large manifests.
+  useEffect(() => {
+    if (!isHydrated) return;
+    const timer = window.setTimeout(() => {
+      saveSession(manifests, activeManifest.id).catch(err => console.error('Session save failed:', err));
+      // Images a pending re-scan review or an undo could still bring back are in use too
+      const inUse = [
+        ...manifests.flatMap(m => m.passports),
+        ...history.entries.flatMap(e => e.changes.flatMap(c => [c.before, c.after])),
+        ...(rescanReview ? [rescanReview.after] : []),
+      ];
+      const referenced = inUse.filter(Boolean).flatMap(p => [p.sourceImageId || p.id, p.processedImageId].filter(Boolean) as string[]);
+      // A scan still running may already have saved its processed image
+      pruneImages([...referenced, ...unclaimedImageIds(referenced)]).catch(err => console.error('Image cleanup failed:', err));
+    }, 400);
+    return () => window.clearTimeout(timer);
+  }, [manifests, activeManifest.id, isHydrated, history.entries, rescanReview]);
+
+  const startFresh = () => {
+    if (!confirm(restoreError ? 'Delete the saved manifests that could not be loaded and start fresh?' : 'Discard all restored manifests and start fresh?')) return;
+    const fresh = createManifest('Active Manifest');
+    setManifests([fresh]);
+    setActiveManifestId(fresh.id);
+    setHistory(emptyHistory());
+    setRestoredCount(0);
+    clearSession()
+      .then(() => {
+        // Only now is it safe to save over what was stored
+        setRestoreError(null);
+        setIsHydrated(true);
+      })
+      .catch(err => console.error('Session clear failed:', err));
+  };
+
+  const switchManifest = (id: string) => {
+    if (status === ProcessingStatus.PROCESSING) {
+      alert('Wait for the current scan to finish before switching manifests.');
+      return;
+    }
+    const target = manifests.find(m => m.id === id);
+    if (!target) return;
+    if (target.id !== activeManifest.id) {
+      setActiveManifestId(target.id);
+      setHistory(emptyHistory(target.passports));
+      setEditingId(null);
+    }
+    setView('manifest');
+  };
+
+  const createNewManifest = () => {
+    if (status === ProcessingStatus.PROCESSING) return;
+    const manifest = createManifest();
+    setManifests(prev => [...prev, manifest]);
+    setActiveManifestId(manifest.id);
+    setHistory(emptyHistory());
+    setEditingManifestId(manifest.id);
+  };
+
+  const updateManifestDetails = (id: string, field: keyof ManifestDetails, value: string) => {
+    setManifests(prev => prev.map(m => m.id === id ? { ...m, [field]: value, updatedAt: Date.now() } : m));
+  };
+
+  const copyManifest = (id: string) => {
+    const source = manifests.find(m => m.id === id);
+    if (!source) return;
+    const passportsToCopy = source.id === activeManifest.id ? passports : source.passports;
+    setManifests(prev => [...prev, duplicateManifest({ ...source, passports: passportsToCopy })]);
+  };
+
+  const archiveManifest = (id: string, archived: boolean) => {
+    if (archived && id === activeManifest.id && status === ProcessingStatus.PROCESSING) return;
+    const remaining = manifests.filter(m => m.id !== id && !m.archived);
+    // Archiving the open manifest moves to another one so there is always somewhere to scan into
+    if (archived && id === activeManifest.id) {
+      const next = remaining[0] || createManifest();
+      if (!remaining[0]) setManifests(prev => [...prev, next]);
+      setActiveManifestId(next.id);
+      setHistory(emptyHistory(next.passports));
+    }
+    setManifests(prev => prev.map(m => m.id === id ? { ...m, archived, updatedAt: Date.now() } : m));
+  };
+
+  const markRecord = (id: string, changes: Partial<PassportData>) => {
+    setHistory(prev => ({
+      ...prev,
+      present: prev.present.map(p => p.id === id ? { ...p, ...changes } : p)
+    }));
+  };
+
+  // Store dates in the canonical form, derive Title and Type from the passenger policy, then check
+  // the result against its MRZ. On a re-scan, anything the user set by hand on the existing record is carried over.
+  const prepareDetails = (scanned: Partial<PassportData>, existing?: PassportData): Partial<PassportData> => {
+    const details = { ...scanned };
+    DATE_FIELDS.forEach(field => {
+      if (details[field]) details[field] = normaliseDate(details[field], centuryFor(field));
+    });
+    const manual: Partial<PassportData> = {
+      ...(existing?.passengerTypeSource === 'manual' ? { passengerType: existing.passengerType, passengerTypeSource: 'manual' as const } : {}),
+      ...(existing?.titleSource === 'manual' ? { title: existing.title, titleSource: 'manual' as const } : {}),
+    };
+    const finalDetails = applyPassengerPolicy({ ...details, ...manual }, activeManifest, passengerPolicy);
+    return { ...finalDetails, mrzCheck: verifyAgainstMrz(finalDetails) };
+  };
+
+  // Scan placeholders live outside the history; the finished scan is recorded as adding the
+  // passenger, so undoing it removes the row instead of leaving a spinning placeholder behind
+  const completeScan = (id: string, details: Partial<PassportData>) => {
+    setHistory(prev => {
+      const index = prev.present.findIndex(p => p.id === id);
+      if (index < 0) return prev;
+      const completed: PassportData = { ...prev.present[index], ...details, status: 'completed', errorMessage: undefined };
+      const withoutPlaceholder = { ...prev, present: prev.present.filter(p => p.id !== id) };
+      const next = [...withoutPlaceholder.present.slice(0, index), completed, ...withoutPlaceholder.present.slice(index)];
+      return commitHistory(withoutPlaceholder, next, `Scan completed for ${completed.fileName}`);
     });
   };
 
   const processFiles = async (files: FileList | File[]) => {
     if (!files || files.length === 0) return;
-    const fileArray: File[] = Array.from(files);
+    const uploads: File[] = Array.from(files);
+    setView('manifest');
+
+    // PDFs and archives are split locally first, so each page or photo becomes its own record
+    const splitting = needsIngestion(uploads);
+    if (splitting && !queueRef.current) {
+      setTotalCount(0);
+      setProcessedCount(0);
+      setStatus(ProcessingStatus.PROCESSING);
+      setQueueNotice('Splitting PDFs and archives into pages...');
+    }
+    const { files: fileArray, skipped } = await ingestFiles(uploads);
+    if (splitting || skipped.length > 0) setSkippedFiles(skipped);
+    if (splitting && !queueRef.current) setQueueNotice(null);
+    if (fileArray.length === 0) {
+      if (!queueRef.current) setStatus(ProcessingStatus.IDLE);
+      return;
+    }
+
+    const newPlaceholders: PassportData[] = fileArray.map(f => {
+      const id = createId();
+      return {
+        id,
+        fileName: f.name,
+        sourceImageId: id,
+        firstName: '',
+        lastName: '',
+        passportNumber: '',
+        status: 'processing'
+      };
+    });
+
+    setHistory(prev => ({ ...prev, present: [...newPlaceholders, ...prev.present] }));
+    fileArray.forEach((file, i) => rememberSourceImage(newPlaceholders[i].id, file, persistImages));
+
+    // A batch already running (continuous camera capture, a second upload) takes the new files at the back
+    const running = batchRef.current;
+    if (running && queueRef.current) {
+      running.files.push(...fileArray);
+      running.placeholders.push(...newPlaceholders);
+      if (queueRef.current.add(fileArray)) {
+        setTotalCount(count => count + fileArray.length);
+        return;
+      }
+    }
+
+    const batch = { files: [...fileArray], placeholders: newPlaceholders };
+    const { placeholders } = batch;
+    batchRef.current = batch;
     setTotalCount(fileArray.length);
     setProcessedCount(0);
     setBatchStartTime(Date.now());
     setStatus(ProcessingStatus.PROCESSING);
-    setView('manifest'); 
-    
-    const placeholders: PassportData[] = fileArray.map(f => ({
-      id: Math.random().toString(36).substring(7),
-      fileName: f.name,
-      firstName: '',
-      lastName: '',
-      passportNumber: '',
-      status: 'processing'
-    }));
 
-    setPassportsWithHistory(prev => [...placeholders, ...prev]);
+    let finished = 0;
+    const advance = () => setProcessedCount(++finished);
 
-    for (let i = 0; i < fileArray.length; i++) {
-      const file = fileArray[i];
-      const placeholderId = placeholders[i].id;
-      try {
-        const details = await extractPassportDetails(file);
-        
-        // Auto-derive Title and Type
-        const derived = deriveAttributes(details.dateOfBirth || '', details.gender || '');
-        const finalDetails = { 
-          ...details, 
-          title: details.title || derived.title,
-          passengerType: derived.passengerType 
-        };
-
-        setHistory(prev => {
-          const nextPresent = prev.present.map(p => 
-            p.id === placeholderId 
-              ? { ...p, ...finalDetails, status: 'completed' as const, isDuplicate: checkIsDuplicate(finalDetails, placeholderId, prev.present) } 
-              : p
-          );
-          return { ...prev, present: nextPresent };
-        });
-      } catch (err) {
-        setHistory(prev => ({
-          ...prev,
-          present: prev.present.map(p => 
-            p.id === placeholderId 
-              ? { ...p, status: 'error' as const, errorMessage: (err as Error).message } 
-              : p
-          )
-        }));
-      }
-      setProcessedCount(i + 1);
-    }
+    const queue = runQueue<File, Partial<PassportData>>(fileArray, (file, signal) => extractionProvider.extract(file, signal), {
+      concurrency: extractionSettings.concurrency,
+      maxRetries: extractionSettings.maxRetries,
+    }, {
+      onSuccess: (i, details) => {
+        completeScan(placeholders[i].id, prepareDetails(details));
+        advance();
+      },
+      onFailure: (i, err) => {
+        markRecord(placeholders[i].id, { status: 'error', errorMessage: err.message });
+        advance();
+      },
+      onRetry: (i, attempt, delayMs) => {
+        setQueueNotice(`Retrying ${batch.files[i].name} in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt} of ${extractionSettings.maxRetries})`);
+      },
+      onCancel: (i) => {
+        markRecord(placeholders[i].id, { status: 'error', errorMessage: 'Scan cancelled. Retry the scan to try again.' });
+        advance();
+      },
+    });
+
+    queueRef.current = queue;
+    await queue.done;
+    // A batch started after this one finished owns the progress display now
+    if (queueRef.current !== queue) return;
+    queueRef.current = null;
+    batchRef.current = null;
+    setIsPaused(false);
+    setQueueNotice(null);
     setStatus(ProcessingStatus.IDLE);
     setBatchStartTime(null);
   };
 
-  const updatePassport = (id: string, field: keyof PassportData, value: string) => {
-    setPassportsWithHistory(prev => {
-      const updatedList = prev.map(p => {
-        if (p.id !== id) return p;
-        const updated = { ...p, [field]: value };
-        
-        // If DOB or Gender changed, re-derive Title and Type unless specifically edited?
-        // For simplicity, let's auto-update them if these fields change.
-        if (field === 'dateOfBirth' || field === 'gender') {
-          const derived = deriveAttributes(updated.dateOfBirth || '', updated.gender || '');
-          updated.passengerType = derived.passengerType;
-          updated.title = derived.title;
+  // Re-runs extraction for one record, from its stored image or a replacement.
+  // Completed records go through a review step so a worse scan can't silently overwrite good data.
+  const rescanPassport = async (id: string, replacement?: File) => {
+    const record = passports.find(p => p.id === id);
+    if (!record || record.status === 'processing') return;
+    const file = replacement || await getSourceImage(record.sourceImageId, record.fileName);
+    if (!file) {
+      alert('The original image is no longer available. Choose a replacement image to re-scan.');
+      return;
+    }
+
+    const wasCompleted = record.status === 'completed';
+    const imageChanges: Partial<PassportData> = replacement ? { fileName: replacement.name, sourceImageId: createId() } : {};
+    markRecord(id, { status: 'processing', errorMessage: undefined });
+
+    const queue = runQueue<File, Partial<PassportData>>([file], (f, signal) => extractionProvider.extract(f, signal), {
+      concurrency: 1,
+      maxRetries: extractionSettings.maxRetries,
+    }, {
+      onSuccess: (_, details) => {
+        const after = { ...prepareDetails(details, record), ...imageChanges };
+        if (wasCompleted) {
+          markRecord(id, { status: 'completed' });
+          setRescanReview({ id, after, replacement });
+        } else {
+          if (replacement) rememberSourceImage(after.sourceImageId!, replacement, persistImages);
+          markRecord(id, { status: record.status, errorMessage: record.errorMessage });
+          setPassportsWithHistory(prev => prev.map(p => p.id === id ? { ...p, ...after, status: 'completed' as const, errorMessage: undefined } : p), `Re-scanned ${recordLabel(record)}`);
         }
-        
-        return updated;
-      });
-      
-      const target = updatedList.find(p => p.id === id);
-      if (target && target.status === 'completed') {
-        const isDup = checkIsDuplicate(target, id, updatedList);
-        return updatedList.map(p => p.id === id ? { ...p, isDuplicate: isDup } : p);
-      }
-      return updatedList;
+      },
+      onFailure: (_, err) => {
+        if (wasCompleted) {
+          markRecord(id, { status: 'completed' });
+          alert(`Re-scan failed: ${err.message}`);
+        } else {
+          markRecord(id, { status: 'error', errorMessage: err.message });
+        }
+      },
     });
+    await queue.done;
+  };
+
+  const acceptRescan = () => {
+    if (!rescanReview) return;
+    const { id, after, replacement } = rescanReview;
+    if (replacement) rememberSourceImage(after.sourceImageId!, replacement, persistImages);
+    setPassportsWithHistory(prev => prev.map(p => p.id === id ? { ...p, ...after } : p), `Re-scanned ${recordLabel(passports.find(p => p.id === id))}`);
+    setRescanReview(null);
+  };
+
+  const togglePause = () => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (queue.isPaused()) {
+      queue.resume();
+      // Shift the start time forward so the ETA ignores time spent paused
+      if (pausedAt !== null) setBatchStartTime(t => t === null ? t : t + (Date.now() - pausedAt));
+      setPausedAt(null);
+      setIsPaused(false);
+    } else {
+      queue.pause();
+      setPausedAt(Date.now());
+      setIsPaused(true);
+    }
+  };
+
+  const cancelBatch = () => {
+    if (!queueRef.current || !confirm('Cancel the remaining scans in this batch?')) return;
+    queueRef.current.cancel();
+  };
+
+  const submitMrzText = (text: string) => {
+    setShowSettings(false);
+    processFiles([mrzTextToFile(text)]);
+  };
+
+  const applyFieldChange = (p: PassportData, field: keyof PassportData, value: string): PassportData => {
+    let updated = { ...p, [field]: isDateField(field) ? normaliseDate(value, centuryFor(field), dateFormat) : value };
+
+    // Picking a type or title by hand pins it; clearing it hands it back to the policy
+    if (field === 'passengerType') updated.passengerTypeSource = value ? 'manual' : 'auto';
+    if (field === 'title') updated.titleSource = value ? 'manual' : 'auto';
+    if (updated.status === 'completed') {
+      updated = applyPassengerPolicy(updated, activeManifest, passengerPolicy);
+    }
+
+    // Re-check against the MRZ so correcting a field clears its flag
+    if (updated.mrz) {
+      updated.mrzCheck = verifyAgainstMrz(updated);
+    }
+
+    return updated;
+  };
+
+  const updatePassport = (id: string, field: keyof PassportData, value: string) => {
+    const record = passports.find(p => p.id === id);
+    setPassportsWithHistory(prev => prev.map(p => p.id === id ? applyFieldChange(p, field, value) : p), `Edited ${fieldLabel(field)} of ${recordLabel(record)}`, `${id}:${field}`);
+  };
+
+  // Bulk actions each land as a single undo step
+  const updatePassports = (ids: string[], field: keyof PassportData, value: string) => {
+    setPassportsWithHistory(prev => prev.map(p => ids.includes(p.id) ? applyFieldChange(p, field, value) : p), `Set ${fieldLabel(field)} on ${ids.length} records`);
+  };
+
+  // A block pasted from a spreadsheet is one undo step however many cells it touches
+  const pasteCells = (updates: { id: string; field: keyof PassportData; value: string }[]) => {
+    setPassportsWithHistory(prev => prev.map(p => updates.filter(u => u.id === p.id).reduce((acc, u) => applyFieldChange(acc, u.field, u.value), p)), `Pasted ${updates.length} cells`);
+  };
+
+  const deletePassports = (ids: string[]) => {
+    if (!confirm(`Delete ${ids.length} selected passenger${ids.length === 1 ? '' : 's'}?`)) return;
+    setPassportsWithHistory(prev => prev.filter(p => !ids.includes(p.id)), `Deleted ${ids.length} records`);
+  };
+
+  // Re-scans several records in one queue. There is no per-record review here; the results
+  // are applied together once the queue finishes, so a single undo puts every record back.
+  const rescanPassports = async (ids: string[]) => {
+    const records = passports.filter(p => ids.includes(p.id) && p.status !== 'processing');
+    const files = await Promise.all(records.map(r => getSourceImage(r.sourceImageId, r.fileName)));
+    const targets = records.filter((_, i) => files[i]);
+    const missing = records.length - targets.length;
+    if (targets.length === 0) {
+      alert('The original images are no longer available. Re-scan these passengers one at a time with replacement images.');
+      return;
+    }
+    const skipNote = missing > 0 ? ` ${missing} without a stored image will be skipped.` : '';
+    if (!confirm(`Re-scan ${targets.length} passenger${targets.length === 1 ? '' : 's'}? Their details will be replaced by the new scan.${skipNote}`)) return;
+
+    targets.forEach(r => markRecord(r.id, { status: 'processing', errorMessage: undefined }));
+    const results: Record<string, Partial<PassportData>> = {};
+    let failed = 0;
+    const queue = runQueue<File, Partial<PassportData>>(files.filter((f): f is File => !!f), (f, signal) => extractionProvider.extract(f, signal), {
+      concurrency: extractionSettings.concurrency,
+      maxRetries: extractionSettings.maxRetries,
+    }, {
+      onSuccess: (i, details) => { results[targets[i].id] = prepareDetails(details, targets[i]); },
+      onFailure: () => { failed++; },
+    });
+    await queue.done;
+
+    // Put the original statuses back first so undoing doesn't return records to 'processing'
+    targets.forEach(r => markRecord(r.id, { status: r.status, errorMessage: r.errorMessage }));
+    setPassportsWithHistory(prev => prev.map(p => results[p.id] ? { ...p, ...results[p.id], status: 'completed' as const, errorMessage: undefined } : p), `Re-scanned ${Object.keys(results).length} records`);
+    if (failed > 0) alert(`${failed} re-scan${failed === 1 ? '' : 's'} failed. Those passengers were left unchanged.`);
+  };
+
+  const exportSelection = (ids: string[]) => {
+    setExportIds(ids);
+    setShowExport(true);
+  };
+
+  const closeExport = () => {
+    setShowExport(false);
+    setExportIds(null);
+  };
+
+  // Duplicate resolutions go through the history stack so each one can be undone
+  const keepDuplicate = (keepId: string, removeId: string) => {
+    setPassportsWithHistory(prev => prev.filter(p => p.id !== removeId), `Removed duplicate of ${recordLabel(passports.find(p => p.id === keepId))}`);
+    setResolvingPair(null);
+    setEditingId(keepId);
+  };
+
+  const mergeDuplicates = (merged: PassportData, removeId: string) => {
+    const record = applyPassengerPolicy(merged, activeManifest, passengerPolicy);
+    const checked = { ...record, mrzCheck: verifyAgainstMrz(record) };
+    setPassportsWithHistory(prev => prev.filter(p => p.id !== removeId).map(p => p.id === merged.id ? checked : p), `Merged duplicates of ${recordLabel(checked)}`);
+    setResolvingPair(null);
+    setEditingId(merged.id);
+  };
+
+  const dismissDuplicate = (leftId: string, rightId: string) => {
+    setPassportsWithHistory(prev => prev.map(p => {
+      const other = p.id === leftId ? rightId : p.id === rightId ? leftId : null;
+      return other ? { ...p, notDuplicateOf: [...(p.notDuplicateOf || []).filter(id => id !== other), other] } : p;
+    }), `Marked ${recordLabel(passports.find(p => p.id === leftId))} and ${recordLabel(passports.find(p => p.id === rightId))} as different people`);
+    setResolvingPair(null);
+  };
+
+  // Imported rows arrive complete, so they skip extraction but still get the passenger policy
+  const importPassengers = (rows: ImportedRow[], fileName: string) => {
+    setPassportsWithHistory(prev => [
+      ...prev,
+      ...rows.map(({ rowNumber, details }) => adoptGivenValues<PassportData>({
+          firstName: '',
+          lastName: '',
+          passportNumber: '',
+          ...details,
+          id: createId(),
+          fileName: `${fileName} row ${rowNumber}`,
+          status: 'completed',
+        }, activeManifest, passengerPolicy)),
+    ], `Imported ${rows.length} records`);
+    setShowImport(false);
+    setView('manifest');
   };
 
   const deletePassport = (id: string) => {
-    setPassportsWithHistory(prev => prev.filter(p => p.id !== id));
+    setPassportsWithHistory(prev => prev.filter(p => p.id !== id), `Deleted ${recordLabel(passports.find(p => p.id === id))}`);
     setEditingId(null);
   };
 
@@ -259,76 +638,68 @@ const App: React.FC = () => {
     }));
   };
 
-  const filteredAndSortedPassports = useMemo(() => {
-    let result = [...passports];
-    if (filters.startDate || filters.endDate) {
-      result = result.filter(p => {
-        const dateVal = p[filters.field];
-        if (!dateVal) return false;
-        const parts = (dateVal as string).split('/');
-        if (parts.length !== 3) return false;
-        const pDate = new Date(parseInt(parts[2]), parseInt(parts[1])-1, parseInt(parts[0]));
-        if (filters.startDate && pDate < new Date(filters.startDate)) return false;
-        if (filters.endDate) {
-          const end = new Date(filters.endDate);
-          end.setHours(23, 59, 59);
-          if (pDate > end) return false;
+  const validity = useMemo(
+    () => checkManifestValidity(activeManifest, passports, validitySettings),
+    [activeManifest.departureDate, activeManifest.returnDate, activeManifest.destination, passports, validitySettings]
+  );
+
+  const validationIssues = useMemo(() => validateManifest(passports), [passports]);
+  const duplicateMatches = useMemo(() => findAllDuplicates(passports), [passports]);
+  const issueCounts = countIssues(validationIssues);
+
+  const filteredAndSortedPassports = useMemo(
+    () => applyFilters(passports, filters, sortConfig, { validity, duplicates: duplicateMatches, issues: validationIssues }),
+    [passports, filters, sortConfig, validity, duplicateMatches, validationIssues]
+  );
+  const nationalities = useMemo(() => [...new Set(passports.map(p => p.nationality).filter((n): n is string => !!n))].sort(), [passports]);
+
+  const exportManifest = (template: ExportTemplate, format: ExportFormat) => {
+    const rows = exportIds ? filteredAndSortedPassports.filter(p => exportIds.includes(p.id)) : filteredAndSortedPassports;
+    const blocking = rows.filter(p => validationIssues[p.id]?.some(i => i.severity === 'error')).length;
+    if (blocking > 0 && !confirm(`${blocking} record(s) still have blocking validation errors. Export anyway?`)) return;
+    const mrzFlagged = rows.filter(p => p.mrzCheck && p.mrzCheck.status !== 'verified').length;
+    if (mrzFlagged > 0 && !confirm(`${mrzFlagged} record(s) do not match their MRZ. Export anyway?`)) return;
+
+    // The validity toggle in Setup still adds the column when the template doesn't have one
+    const columns = validitySettings.includeInExport && !template.columns.some(c => c.key === 'validity')
+      ? [...template.columns, { key: 'validity' as const, header: 'PASSPORT VALIDITY' }]
+      : template.columns;
+    const layout = { ...template, columns };
+    const ctx = { manifest: activeManifest, policy: passengerPolicy, validity };
+
+    switch (format) {
+      case 'csv':
+        downloadFile(buildCsv(layout, rows, ctx), templateFileName(template, activeManifest, 'csv'), 'text/csv;charset=utf-8');
+        break;
+      case 'json':
+        downloadFile(buildJson(rows, ctx), templateFileName(template, activeManifest, 'json'), 'application/json');
+        break;
+      case 'print':
+        if (!printHtml(buildPrintableHtml(layout, activeManifest, rows, ctx))) {
+          alert('Allow pop-ups for this site to print the manifest.');
+          return;
         }
-        return true;
-      });
-    }
-    if (sortConfig.key) {
-      result.sort((a, b) => {
-        const valA = a[sortConfig.key!] || '';
-        const valB = b[sortConfig.key!] || '';
-        const strA = String(valA).toUpperCase();
-        const strB = String(valB).toUpperCase();
-        if (strA < strB) return sortConfig.order === 'asc' ? -1 : 1;
-        if (strA > strB) return sortConfig.order === 'asc' ? 1 : -1;
-        return 0;
-      });
-    }
-    return result;
-  }, [passports, filters, sortConfig]);
-
-  const exportToXLSX = () => {
-    const headers = ["NO", "TYPE", "TITLE", "FIRST NAME", "LAST NAME", "GENDER", "PASSPORT NUMBER", "COUNTRY", "DATE OF BIRTH", "DATE OF ISSUE", "DATE OF EXPIRE"];
-    const rows = filteredAndSortedPassports.map((p, i) => [
-      i + 1, 
-      p.passengerType || 'ADULT', 
-      p.title || '', 
-      p.firstName || '', 
-      p.lastName || '', 
-      p.gender || '', 
-      p.passportNumber || '', 
-      p.nationality || '', 
-      p.dateOfBirth || '', 
-      p.issueDate || '', 
-      p.expiryDate || ''
-    ]);
-
-    const worksheet = XLSX.utils.aoa_to_sheet([headers, ...rows]);
-    
-    // Style the header row (yellow background, bold green text as per screenshot)
-    const range = XLSX.utils.decode_range(worksheet['!ref']);
-    for (let C = range.s.c; C <= range.e.c; ++C) {
-      const address = XLSX.utils.encode_col(C) + "1";
-      if (!worksheet[address]) continue;
-      worksheet[address].s = {
-        fill: { fgColor: { rgb: "FFFF00" } },
-        font: { bold: true, color: { rgb: "008000" } },
-        alignment: { horizontal: "center" }
-      };
+        break;
+      default: {
+        const worksheet = buildExportSheet(layout, rows, ctx);
+        const workbook = XLSX.utils.book_new();
+        XLSX.utils.book_append_sheet(workbook, worksheet, templateSheetName(template, activeManifest));
+        XLSX.writeFile(workbook, templateFileName(template, activeManifest, 'xlsx'));
+      }
     }
-
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Manifest");
-    
-    XLSX.writeFile(workbook, `BESTEX_Manifest_${new Date().toLocaleDateString().replace(/\//g,'-')}.xlsx`);
+    closeExport();
   };
 
   const progressPercent = totalCount > 0 ? Math.round((processedCount / totalCount) * 100) : 0;
+  const elapsedMs = batchStartTime !== null ? (pausedAt ?? currentTime) - batchStartTime : 0;
+  const etaSeconds = processedCount > 0 && processedCount < totalCount
+    ? Math.ceil((elapsedMs / processedCount) * (totalCount - processedCount) / 1000)
+    : null;
+  const etaLabel = etaSeconds === null ? 'Estimating time...' : etaSeconds >= 60
+    ? `~${Math.floor(etaSeconds / 60)}m ${etaSeconds % 60}s remaining`
+    : `~${etaSeconds}s remaining`;
   const editingItem = passports.find(p => p.id === editingId);
+  const editingManifest = manifests.find(m => m.id === editingManifestId);
 
   return (
     <div className={`mx-auto min-h-screen bg-[#F8FAFF] flex flex-col relative transition-all duration-500 ease-in-out w-full max-w-none`}>
@@ -371,15 +742,29 @@ const App: React.FC = () => {
           ) : (
             <div className="flex items-center justify-between animate-in fade-in slide-in-from-left duration-700">
                <div>
-                 <h2 className="text-white text-2xl md:text-4xl font-bold tracking-tight">Active Manifest</h2>
-                 <p className="text-blue-100/70 text-sm md:text-lg font-medium">{passports.length} Passengers Scanned</p>
+                 <h2 className="text-white text-2xl md:text-4xl font-bold tracking-tight">{activeManifest.groupName}</h2>
+                 <p className="text-blue-100/70 text-sm md:text-lg font-medium">
+                   {[
+                     describeManifest(activeManifest, dateFormat),
+                     `${passports.length} Passengers Scanned`,
+                     issueCounts.errors + issueCounts.warnings > 0 && `${issueCounts.errors} Errors, ${issueCounts.warnings} Warnings`,
+                   ].filter(Boolean).join(' · ')}
+                 </p>
+               </div>
+               <div className="flex items-center gap-3">
+                 <button 
+                   onClick={() => setEditingManifestId(activeManifest.id)}
+                   className="bg-white/10 hover:bg-white/20 backdrop-blur-md px-5 py-2.5 rounded-2xl text-white text-xs md:text-sm font-black uppercase tracking-widest border border-white/10 transition-all shadow-lg active:scale-95"
+                 >
+                   Details
+                 </button>
+                 <button 
+                   onClick={() => setView('dashboard')}
+                   className="bg-white/10 hover:bg-white/20 backdrop-blur-md px-5 py-2.5 rounded-2xl text-white text-xs md:text-sm font-black uppercase tracking-widest border border-white/10 transition-all shadow-lg active:scale-95"
+                 >
+                   Go Back
+                 </button>
                </div>
-               <button 
-                 onClick={() => setView('dashboard')}
-                 className="bg-white/10 hover:bg-white/20 backdrop-blur-md px-5 py-2.5 rounded-2xl text-white text-xs md:text-sm font-black uppercase tracking-widest border border-white/10 transition-all shadow-lg active:scale-95"
-               >
-                 Go Back
-               </button>
             </div>
           )}
         </div>
@@ -387,12 +772,56 @@ const App: React.FC = () => {
 
       {/* Main Area */}
       <main className="flex-1 -mt-10 px-4 md:px-8 pb-36 relative z-20 max-w-7xl mx-auto w-full">
+        {restoredCount > 0 && (
+          <div className="mb-8 glass-card px-6 py-4 rounded-[2rem] shadow-xl shadow-blue-900/5 border-white flex items-center justify-between gap-4 max-w-xl mx-auto animate-in fade-in slide-in-from-top-4">
+            <div className="flex items-center gap-3">
+              <span className="w-2 h-2 bg-green-500 rounded-full"></span>
+              <p className="text-sm font-bold text-slate-700">Restored {restoredCount} record{restoredCount === 1 ? '' : 's'} from your last session</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={startFresh} className="text-[10px] font-black text-red-500 uppercase tracking-widest px-3 py-2 rounded-xl hover:bg-red-50 transition-colors">Start Fresh</button>
+              <button onClick={() => setRestoredCount(0)} className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-3 py-2 rounded-xl hover:bg-slate-100 transition-colors">Dismiss</button>
+            </div>
+          </div>
+        )}
+
+        {restoreError && (
+          <div className="mb-8 glass-card px-6 py-4 rounded-[2rem] shadow-xl shadow-blue-900/5 border-white max-w-xl mx-auto animate-in fade-in slide-in-from-top-4">
+            <div className="flex items-start gap-3">
+              <span className="w-2 h-2 bg-red-500 rounded-full mt-1.5 shrink-0"></span>
+              <div className="flex-1">
+                <p className="text-sm font-bold text-slate-700">{restoreError}</p>
+                <p className="text-xs text-slate-500 mt-1">They are still stored on this device. Nothing from this tab will be saved, so they stay untouched until you reload with an up-to-date app or start fresh.</p>
+              </div>
+              <button onClick={startFresh} className="text-[10px] font-black text-red-500 uppercase tracking-widest px-3 py-2 rounded-xl hover:bg-red-50 transition-colors shrink-0">Start Fresh</button>
+            </div>
+          </div>
+        )}
+
+        {skippedFiles.length > 0 && (
+          <div className="mb-8 glass-card px-6 py-4 rounded-[2rem] shadow-xl shadow-blue-900/5 border-white max-w-xl mx-auto animate-in fade-in slide-in-from-top-4">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-3">
+                <span className="w-2 h-2 bg-amber-500 rounded-full"></span>
+                <p className="text-sm font-bold text-slate-700">Skipped {skippedFiles.length} file{skippedFiles.length === 1 ? '' : 's'} that could not be scanned</p>
+              </div>
+              <button onClick={() => setSkippedFiles([])} className="text-[10px] font-black text-slate-400 uppercase tracking-widest px-3 py-2 rounded-xl hover:bg-slate-100 transition-colors">Dismiss</button>
+            </div>
+            <ul className="mt-3 ml-5 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+              {skippedFiles.map((f, i) => (
+                <li key={i} className="text-xs text-slate-500"><span className="font-bold text-slate-700">{f.name}</span> — {f.reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {status === ProcessingStatus.PROCESSING && (
           <div className="mb-8 glass-card p-6 md:p-8 rounded-[2.5rem] shadow-2xl shadow-blue-900/10 border-white animate-in zoom-in-95 duration-500 max-w-xl mx-auto">
             <div className="flex justify-between items-end mb-4">
               <div>
                 <span className="inline-block bg-blue-100 text-blue-600 text-[10px] md:text-xs font-black px-2.5 py-1 rounded-lg uppercase tracking-widest mb-2">AI Extraction</span>
                 <h4 className="text-lg md:text-xl font-extrabold text-slate-800">{processedCount} / {totalCount} Files</h4>
+                <p className="text-[10px] md:text-xs text-slate-400 font-bold uppercase tracking-widest mt-1">{isPaused ? 'Paused' : etaLabel}</p>
               </div>
               <div className="text-right">
                 <span className="text-3xl md:text-4xl font-black text-blue-600 tracking-tighter">{progressPercent}%</span>
@@ -402,13 +831,28 @@ const App: React.FC = () => {
               <div className="h-full bg-blue-600 transition-all duration-700 rounded-xl shadow-[0_0_15px_rgba(37,99,235,0.4)]" style={{ width: `${progressPercent}%` }}></div>
             </div>
             <p className="text-[10px] md:text-xs text-slate-400 font-bold uppercase tracking-widest flex items-center gap-2 justify-center">
-              <span className="w-1.5 h-1.5 bg-blue-500 rounded-full animate-pulse"></span>
-              Reading Machine Readable Zone (MRZ)...
+              <span className={`w-1.5 h-1.5 rounded-full ${isPaused ? 'bg-amber-500' : 'bg-blue-500 animate-pulse'}`}></span>
+              {queueNotice || 'Reading Machine Readable Zone (MRZ)...'}
             </p>
+            <div className="flex items-center justify-center gap-3 mt-5">
+              <button 
+                onClick={togglePause}
+                className="px-5 py-2.5 rounded-2xl text-[10px] md:text-xs font-black uppercase tracking-widest bg-blue-50 text-blue-600 hover:bg-blue-100 active:scale-95 transition-all"
+              >
+                {isPaused ? 'Resume' : 'Pause'}
+              </button>
+              <button 
+                onClick={cancelBatch}
+                className="px-5 py-2.5 rounded-2xl text-[10px] md:text-xs font-black uppercase tracking-widest bg-red-50 text-red-500 hover:bg-red-100 active:scale-95 transition-all"
+              >
+                Cancel
+              </button>
+            </div>
           </div>
         )}
 
         {view === 'dashboard' ? (
+          <>
           <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6 animate-in fade-in slide-in-from-bottom-8 duration-700">
             <div 
               onClick={() => setView('manifest')}
@@ -420,8 +864,8 @@ const App: React.FC = () => {
                   <path strokeLinecap="round" strokeLinejoin="round" d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
                 </svg>
               </div>
-              <h3 className="text-2xl font-extrabold text-slate-800 mb-2">View Manifest</h3>
-              <p className="text-slate-500 text-base font-medium max-w-md">Access your scanned passenger lists, edit details, and export to Excel instantly.</p>
+              <h3 className="text-2xl font-extrabold text-slate-800 mb-2">{activeManifest.groupName}</h3>
+              <p className="text-slate-500 text-base font-medium max-w-md">{describeManifest(activeManifest, dateFormat) || 'Access your scanned passenger lists, edit details, and export to Excel instantly.'}</p>
               <div className="mt-8 flex items-center gap-3">
                 <span className="px-4 py-1.5 bg-blue-50 text-blue-600 rounded-full text-xs font-black uppercase tracking-wider">{passports.length} Passengers Scanned</span>
                 <span className="w-8 h-8 rounded-full bg-blue-600 text-white flex items-center justify-center">
@@ -438,39 +882,70 @@ const App: React.FC = () => {
               <p className="text-slate-400 text-xs mt-2 font-medium">Previous uploads</p>
             </div>
 
-            <div className="group bg-white p-8 rounded-[2.5rem] shadow-lg hover:shadow-xl transition-all cursor-pointer border border-slate-100 flex flex-col items-center justify-center text-center active:scale-95 desktop-hover">
+            <div 
+              onClick={() => setShowSettings(true)}
+              className="group bg-white p-8 rounded-[2.5rem] shadow-lg hover:shadow-xl transition-all cursor-pointer border border-slate-100 flex flex-col items-center justify-center text-center active:scale-95 desktop-hover"
+            >
               <div className="w-14 h-14 bg-amber-50 text-amber-600 rounded-2xl flex items-center justify-center mb-4 group-hover:bg-amber-600 group-hover:text-white transition-all">
                 <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /></svg>
               </div>
               <span className="text-sm font-black text-slate-700 uppercase tracking-widest">Setup</span>
-              <p className="text-slate-400 text-xs mt-2 font-medium">App preferences</p>
+              <p className="text-slate-400 text-xs mt-2 font-medium">{extractionProvider.label}</p>
             </div>
           </div>
+
+          <ManifestList
+            manifests={manifests}
+            activeId={activeManifest.id}
+            onSwitch={switchManifest}
+            onCreate={createNewManifest}
+            onEdit={setEditingManifestId}
+            onDuplicate={copyManifest}
+            onArchive={archiveManifest}
+            dateFormat={dateFormat}
+          />
+          </>
         ) : (
           <div className="animate-in fade-in slide-in-from-bottom-8 duration-700">
             <div className="flex flex-col md:flex-row items-center justify-between mb-8 gap-6 bg-white/40 p-6 rounded-[2.5rem]">
                <div className="flex flex-wrap items-center gap-4 w-full md:w-auto">
                   <div className="w-1.5 h-10 bg-blue-600 rounded-full hidden md:block"></div>
                   <h3 className="text-2xl font-black text-slate-800">Passenger Records</h3>
+                  {issueCounts.errors + issueCounts.warnings > 0 && (
+                    <span 
+                      className={`px-3 py-1.5 rounded-xl text-[10px] font-black uppercase tracking-widest ${issueCounts.errors > 0 ? 'bg-red-50 text-red-600' : 'bg-amber-50 text-amber-600'}`}
+                      title="Fix highlighted cells before exporting"
+                    >
+                      {issueCounts.errors > 0 ? `${issueCounts.errors} Error${issueCounts.errors === 1 ? '' : 's'}` : `${issueCounts.warnings} Warning${issueCounts.warnings === 1 ? '' : 's'}`}
+                    </span>
+                  )}
                   
                   {/* Undo/Redo Controls */}
                   <div className="flex items-center gap-1 bg-white p-1 rounded-xl border border-slate-100 shadow-sm">
                     <button 
                       onClick={undo}
-                      disabled={history.past.length === 0}
-                      className={`p-2.5 rounded-lg transition-all ${history.past.length > 0 ? 'text-slate-600 hover:bg-slate-50' : 'text-slate-200 cursor-not-allowed'}`}
+                      disabled={history.cursor === 0}
+                      className={`p-2.5 rounded-lg transition-all ${history.cursor > 0 ? 'text-slate-600 hover:bg-slate-50' : 'text-slate-200 cursor-not-allowed'}`}
                       title="Undo (Ctrl+Z)"
                     >
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
                     </button>
                     <button 
                       onClick={redo}
-                      disabled={history.future.length === 0}
-                      className={`p-2.5 rounded-lg transition-all ${history.future.length > 0 ? 'text-slate-600 hover:bg-slate-50' : 'text-slate-200 cursor-not-allowed'}`}
+                      disabled={history.cursor === history.entries.length}
+                      className={`p-2.5 rounded-lg transition-all ${history.cursor < history.entries.length ? 'text-slate-600 hover:bg-slate-50' : 'text-slate-200 cursor-not-allowed'}`}
                       title="Redo (Ctrl+Y)"
                     >
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M21 10h-10a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" /></svg>
                     </button>
+                    <button 
+                      onClick={() => setShowHistory(true)}
+                      disabled={history.entries.length === 0}
+                      className={`p-2.5 rounded-lg transition-all ${history.entries.length > 0 ? 'text-slate-600 hover:bg-slate-50' : 'text-slate-200 cursor-not-allowed'}`}
+                      title="History"
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                    </button>
                   </div>
                </div>
                <div className="flex items-center gap-4 w-full md:w-auto">
@@ -481,56 +956,82 @@ const App: React.FC = () => {
                     <svg className="w-6 h-6 mx-auto" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5"><path d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" /></svg>
                   </button>
                   <button 
-                    onClick={exportToXLSX}
+                    onClick={() => setShowImport(true)}
+                    className="flex-1 md:flex-none bg-white text-slate-700 border border-slate-200 px-6 py-4 rounded-2xl text-sm font-black uppercase tracking-widest shadow-sm hover:border-blue-300 active:scale-95 transition-all"
+                  >
+                    Import
+                  </button>
+                  <button 
+                    onClick={() => setShowDocs(true)}
+                    className="flex-1 md:flex-none bg-white text-slate-700 border border-slate-200 px-6 py-4 rounded-2xl text-sm font-black uppercase tracking-widest shadow-sm hover:border-blue-300 active:scale-95 transition-all"
+                    title="GDS SSR DOCS lines"
+                  >
+                    DOCS
+                  </button>
+                  <button 
+                    onClick={() => setShowExport(true)}
                     className="flex-[2] md:flex-none bg-slate-900 text-white px-10 py-4 rounded-2xl text-sm font-black uppercase tracking-widest shadow-xl hover:bg-slate-800 active:scale-95 transition-all"
                   >
-                    Export to Excel
+                    Export
                   </button>
                </div>
             </div>
 
-            {showFilters && (
-               <div className="glass-card p-8 rounded-[2.5rem] border-white shadow-2xl mb-8 max-w-2xl mx-auto animate-in slide-in-from-top-4">
-                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                     <div className="md:col-span-2">
-                        <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2 block">Filter Criterion</label>
-                        <select 
-                          className="w-full bg-slate-100/50 border border-slate-200 px-4 py-4 rounded-2xl text-base font-bold text-slate-700 outline-none focus:ring-4 focus:ring-blue-100 transition-all"
-                          value={filters.field}
-                          onChange={e => setFilters({...filters, field: e.target.value as DateField})}
-                        >
-                          <option value="expiryDate">Passport Expiry</option>
-                          <option value="issueDate">Passport Issue Date</option>
-                          <option value="dateOfBirth">Date of Birth</option>
-                        </select>
-                     </div>
-                     <div>
-                        <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2 block">From Date</label>
-                        <input type="date" className="w-full bg-slate-100/50 border border-slate-200 px-4 py-4 rounded-2xl text-base font-bold text-slate-700 outline-none focus:ring-4 focus:ring-blue-100 transition-all" value={filters.startDate} onChange={e => setFilters({...filters, startDate: e.target.value})} />
-                     </div>
-                     <div>
-                        <label className="text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2 block">To Date</label>
-                        <input type="date" className="w-full bg-slate-100/50 border border-slate-200 px-4 py-4 rounded-2xl text-base font-bold text-slate-700 outline-none focus:ring-4 focus:ring-blue-100 transition-all" value={filters.endDate} onChange={e => setFilters({...filters, endDate: e.target.value})} />
-                     </div>
-                  </div>
-                  <button onClick={() => setFilters({field:'expiryDate',startDate:'',endDate:''})} className="w-full mt-6 text-xs font-black uppercase text-slate-400 hover:text-blue-600 transition-colors">Reset All Filters</button>
-               </div>
-            )}
+            <FilterBar
+              filters={filters}
+              onChange={setFilters}
+              views={filterViews}
+              onViewsChange={setFilterViews}
+              showAdvanced={showFilters}
+              nationalities={nationalities}
+              dateFormat={dateFormat}
+            />
+
+            {/* Passport validity quick filter */}
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              {(['all', 'valid', 'expiring', 'expired'] as const).map(key => {
+                const count = key === 'all' ? passports.length : passports.filter(p => validity[p.id]?.status === key).length;
+                const active = filters.validity === key;
+                return (
+                  <button 
+                    key={key}
+                    onClick={() => setFilters({...filters, validity: key})}
+                    className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${active ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}
+                  >
+                    {key === 'all' ? 'All' : VALIDITY_LABELS[key]} ({count})
+                  </button>
+                );
+              })}
+              {activeManifest.departureDate 
+                ? <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-2">Checked against travel date</span>
+                : <button onClick={() => setEditingManifestId(activeManifest.id)} className="text-[10px] font-bold text-amber-600 uppercase tracking-widest ml-2 hover:underline">Set a travel date for accurate validity</button>}
+            </div>
 
             {/* Responsive Manifest Views */}
-            <div className="md:hidden space-y-4">
-              {filteredAndSortedPassports.map(p => <PassportCard key={p.id} item={p} status={p.status} onClick={() => setEditingId(p.id)} />)}
+            <div className="md:hidden">
+              <PassportCardList data={filteredAndSortedPassports} validity={validity} duplicates={duplicateMatches} onOpen={setEditingId} dateFormat={dateFormat} />
             </div>
             
             <div className="hidden md:block">
               <PassportTable 
                 data={filteredAndSortedPassports} 
                 onDelete={deletePassport} 
-                onClear={() => { if(confirm('Clear current manifest?')) setPassportsWithHistory([]); }}
-                onExport={exportToXLSX}
+                onClear={() => { if(confirm('Clear current manifest?')) setPassportsWithHistory([], 'Cleared manifest'); }}
+                onExport={() => setShowExport(true)}
                 onUpdate={updatePassport}
+                onPasteCells={pasteCells}
                 sortConfig={sortConfig}
                 onSort={handleSort}
+                onRescan={rescanPassport}
+                issues={validationIssues}
+                duplicates={duplicateMatches}
+                onResolveDuplicate={(leftId, rightId) => setResolvingPair({ leftId, rightId })}
+                onBulkUpdate={updatePassports}
+                onBulkDelete={deletePassports}
+                onBulkRescan={rescanPassports}
+                onExportSelection={exportSelection}
+                validity={validity}
+                dateFormat={dateFormat}
               />
             </div>
 
@@ -547,7 +1048,53 @@ const App: React.FC = () => {
         )}
       </main>
 
-      {editingItem && <DetailEditor item={editingItem} onClose={() => setEditingId(null)} onUpdate={(f, v) => updatePassport(editingItem.id, f, v)} onDelete={() => deletePassport(editingItem.id)} />}
+      {showExport && (
+        <ExportDialog
+          templates={exportTemplates}
+          selectedId={exportTemplateId}
+          onSelect={setExportTemplateId}
+          onTemplatesChange={setExportTemplates}
+          previewFileName={(template, format) => format === 'print' ? 'Opens the print dialog' : templateFileName(template, activeManifest, format)}
+          onExport={exportManifest}
+          selectionCount={exportIds?.length}
+          onClose={closeExport}
+        />
+      )}
+      {showDocs && <DocsPanel passports={filteredAndSortedPassports} defaultCarrier={carrierCode(activeManifest.airline)} fileName={manifestFileName(activeManifest, 'docs.txt')} onClose={() => setShowDocs(false)} />}
+      {showImport && <ImportDialog onClose={() => setShowImport(false)} onImport={importPassengers} isDuplicate={details => findDuplicates(details, passports).length > 0} />}
+      {showCamera && <CameraScanner onCapture={file => processFiles([file])} onClose={() => setShowCamera(false)} minSharpness={preprocessSettings.minSharpness} />}
+
+      {showSettings && <SettingsPanel settings={extractionSettings} onChange={setExtractionSettings} persistImages={persistImages} onPersistImagesChange={setPersistImages} validitySettings={validitySettings} onValiditySettingsChange={setValiditySettings} passengerPolicy={passengerPolicy} onPassengerPolicyChange={setPassengerPolicy} preprocessSettings={preprocessSettings} onPreprocessSettingsChange={setPreprocessSettings} dateFormat={dateFormat} onDateFormatChange={setDateFormat} onClose={() => setShowSettings(false)} onSubmitMrz={submitMrzText} />}
+
+      {editingManifest && <ManifestEditor details={editingManifest} onClose={() => setEditingManifestId(null)} onUpdate={(f, v) => updateManifestDetails(editingManifest.id, f, v)} />}
+
+      {editingItem && <DetailEditor item={editingItem} onClose={() => setEditingId(null)} onUpdate={(f, v) => updatePassport(editingItem.id, f, v)} onDelete={() => deletePassport(editingItem.id)} onRescan={(replacement) => rescanPassport(editingItem.id, replacement)} issues={validationIssues[editingItem.id]} policyNote={derivePassenger(editingItem, activeManifest, passengerPolicy).note} duplicates={(duplicateMatches[editingItem.id] || []).map(match => ({ match, record: passports.find(p => p.id === match.id)! }))} onOpenRecord={setEditingId} onResolveDuplicate={otherId => setResolvingPair({ leftId: editingItem.id, rightId: otherId })} dateFormat={dateFormat} />}
+
+      {rescanReview && passports.find(p => p.id === rescanReview.id) && (
+        <RescanReview
+          before={passports.find(p => p.id === rescanReview.id)!}
+          after={rescanReview.after}
+          onAccept={acceptRescan}
+          onReject={() => setRescanReview(null)}
+          dateFormat={dateFormat}
+        />
+      )}
+
+      {showHistory && <HistoryPanel entries={history.entries} cursor={history.cursor} onJump={cursor => setHistory(prev => jumpTo(prev, cursor))} onClose={() => setShowHistory(false)} />}
+
+      {resolvingPair && passports.find(p => p.id === resolvingPair.leftId) && passports.find(p => p.id === resolvingPair.rightId) && (
+        <DuplicateResolver
+          key={`${resolvingPair.leftId}-${resolvingPair.rightId}`}
+          left={passports.find(p => p.id === resolvingPair.leftId)!}
+          right={passports.find(p => p.id === resolvingPair.rightId)!}
+          match={duplicateMatches[resolvingPair.leftId]?.find(m => m.id === resolvingPair.rightId)}
+          onKeep={keepDuplicate}
+          onMerge={mergeDuplicates}
+          onDismiss={() => dismissDuplicate(resolvingPair.leftId, resolvingPair.rightId)}
+          onClose={() => setResolvingPair(null)}
+          dateFormat={dateFormat}
+        />
+      )}
 
       {/* Responsive Navigation Bar */}
       <nav className={`fixed bottom-0 left-0 right-0 z-50 transition-all duration-500 mx-auto ${view === 'manifest' ? 'max-w-none px-6' : 'max-w-xl'}`}>
@@ -558,9 +1105,27 @@ const App: React.FC = () => {
               <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5"><path d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" /></svg>
             </button>
             <div className="absolute top-[-40px] left-1/2 -translate-x-1/2">
+              {showAddMenu && (
+                <>
+                  <div className="fixed inset-0" onClick={() => setShowAddMenu(false)}></div>
+                  <div className="absolute bottom-full mb-4 left-1/2 -translate-x-1/2 w-56 bg-white rounded-3xl shadow-2xl border border-slate-100 p-2 animate-in fade-in slide-in-from-bottom-2 duration-200">
+                    <button
+                      onClick={() => { setShowAddMenu(false); setShowCamera(true); }}
+                      className="w-full text-left px-4 py-3 rounded-2xl text-sm font-bold text-slate-700 hover:bg-blue-50 transition-colors"
+                    >
+                      Scan with Camera
+                    </button>
+                    <button
+                      onClick={() => { setShowAddMenu(false); fileInputRef.current?.click(); }}
+                      className="w-full text-left px-4 py-3 rounded-2xl text-sm font-bold text-slate-700 hover:bg-blue-50 transition-colors"
+                    >
+                      Upload Files
+                    </button>
+                  </div>
+                </>
+              )}
               <button 
-                onClick={() => fileInputRef.current?.click()}
-                disabled={status === ProcessingStatus.PROCESSING}
+                onClick={() => setShowAddMenu(!showAddMenu)}
                 className="w-20 h-20 bg-blue-600 rounded-full shadow-[0_20px_40px_rgba(30,58,138,0.5)] flex items-center justify-center active:scale-90 transition-all border-4 border-[#F8FAFF] group relative overflow-hidden"
               >
                 <div className="absolute inset-0 bg-white rounded-full scale-0 group-hover:scale-100 opacity-0 group-hover:opacity-10 transition-all duration-300"></div>
@@ -569,8 +1134,8 @@ const App: React.FC = () => {
                 ) : (
                   <svg className="w-10 h-10 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" /></svg>
                 )}
-                <input type="file" ref={fileInputRef} className="hidden" multiple accept="image/*,.pdf" onChange={e => e.target.files && processFiles(e.target.files)} />
               </button>
+              <input type="file" ref={fileInputRef} className="hidden" multiple accept="image/*,.pdf,.zip,.txt" onChange={e => { if (e.target.files) processFiles(e.target.files); e.target.value = ''; }} />
             </div>
             <button onClick={() => setView('manifest')} className={`p-5 transition-all ${view === 'manifest' ? 'opacity-100 scale-125' : 'opacity-40 hover:opacity-100'}`}>
               <svg className="w-8 h-8" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5"><path d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>
@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { openCamera, stopCamera } from '../services/cameraService';
+import { GreyImage, greyscale, Region, sharpness } from '../services/preprocessService';
+
+interface CameraScannerProps {
+  onCapture: (file: File) => void;
+  onClose: () => void;
+  minSharpness: number;
+  // Swappable so the scanner can run on a fake stream in tests
+  openStream?: () => Promise<MediaStream>;
+}
+
+type Hint = 'align' | 'steady' | 'focus' | 'captured' | 'next';
+
+const HINTS: Record<Hint, string> = {
+  align: 'Fit the passport data page inside the frame',
+  steady: 'Hold still…',
+  focus: 'Bring the MRZ lines into focus inside the band',
+  captured: 'Captured',
+  next: 'Captured. Swap in the next passport',
+};
+
+const SAMPLE_MS = 200;
+// Average brightness change between samples (0-255) below which the frame counts as still
+const STEADY_DIFF = 4;
+// After a capture, the frame must change this much (passport taken away) before the next one
+const MOVED_DIFF = 20;
+const STEADY_SAMPLES = 4;
+// The MRZ band is the bottom part of the guide, matching the dashed box in the overlay
+const MRZ_BAND = 0.28;
+
+const meanDiff = (a: GreyImage, b: GreyImage) => {
+  if (a.w !== b.w || a.h !== b.h) return Infinity;
+  let total = 0;
+  for (let i = 0; i < a.data.length; i++) total += Math.abs(a.data[i] - b.data[i]);
+  return total / a.data.length;
+};
+
+const mrzBand = ({ data, w, h }: GreyImage): GreyImage => {
+  const top = Math.floor(h * (1 - MRZ_BAND));
+  return { data: data.subarray(top * w), w, h: h - top };
+};
+
+const fileStamp = () => new Date().toTimeString().slice(0, 8).replace(/:/g, '-');
+
+const CameraScanner: React.FC<CameraScannerProps> = ({ onCapture, onClose, minSharpness, openStream = openCamera }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const guideRef = useRef<HTMLDivElement>(null);
+  const [ready, setReady] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [continuous, setContinuous] = useState(true);
+  const [hint, setHint] = useState<Hint>('align');
+  const [count, setCount] = useState(0);
+  const [flash, setFlash] = useState(false);
+
+  const latest = useRef({ onCapture, onClose, continuous });
+  latest.current = { onCapture, onClose, continuous };
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    openStream().then(s => {
+      if (cancelled) {
+        stopCamera(s);
+        return;
+      }
+      stream = s;
+      const video = videoRef.current!;
+      video.srcObject = s;
+      return video.play().then(() => { if (!cancelled) setReady(true); });
+    }).catch(err => { if (!cancelled) setError(err.message); });
+    return () => {
+      cancelled = true;
+      stopCamera(stream);
+    };
+  }, [openStream]);
+
+  // The video is shown with object-cover, so map the guide's screen box back into video pixels
+  const guideRegion = (): Region | null => {
+    const video = videoRef.current;
+    const guide = guideRef.current;
+    if (!video || !guide || !video.videoWidth) return null;
+    const v = video.getBoundingClientRect();
+    const g = guide.getBoundingClientRect();
+    const scale = Math.max(v.width / video.videoWidth, v.height / video.videoHeight);
+    const offsetX = (v.width - video.videoWidth * scale) / 2;
+    const offsetY = (v.height - video.videoHeight * scale) / 2;
+    const x = Math.max(0, (g.left - v.left - offsetX) / scale);
+    const y = Math.max(0, (g.top - v.top - offsetY) / scale);
+    const w = Math.min(video.videoWidth - x, g.width / scale);
+    const h = Math.min(video.videoHeight - y, g.height / scale);
+    return w > 0 && h > 0 ? { x, y, w, h } : null;
+  };
+
+  // Takes the whole frame; preprocessing crops it down to the passport afterwards
+  const capture = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')!.drawImage(video, 0, 0);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!blob) return;
+    setCount(c => c + 1);
+    setFlash(true);
+    setTimeout(() => setFlash(false), 250);
+    latest.current.onCapture(new File([blob], `Camera ${fileStamp()}.jpg`, { type: 'image/jpeg' }));
+    if (!latest.current.continuous) latest.current.onClose();
+  }, []);
+
+  // Samples the guide a few times a second and captures once it has held still with the MRZ sharp.
+  // After each capture the frame has to change before the next, so one passport is taken once.
+  useEffect(() => {
+    if (!ready || !autoCapture) return;
+    let previous: GreyImage | null = null;
+    let steady = 0;
+    let armed = true;
+    const timer = window.setInterval(() => {
+      const region = guideRegion();
+      if (!region) return;
+      const grey = greyscale(videoRef.current!, region);
+      const diff = previous ? meanDiff(previous, grey) : Infinity;
+      previous = grey;
+      if (!armed) {
+        if (diff < MOVED_DIFF) return;
+        armed = true;
+      }
+      if (diff > STEADY_DIFF) {
+        steady = 0;
+        setHint(diff > MOVED_DIFF ? 'align' : 'steady');
+        return;
+      }
+      if (sharpness(mrzBand(grey)) < minSharpness) {
+        steady = 0;
+        setHint('focus');
+        return;
+      }
+      if (++steady < STEADY_SAMPLES) {
+        setHint('steady');
+        return;
+      }
+      steady = 0;
+      armed = false;
+      setHint(latest.current.continuous ? 'next' : 'captured');
+      capture();
+    }, SAMPLE_MS);
+    return () => window.clearInterval(timer);
+  }, [ready, autoCapture, minSharpness, capture]);
+
+  const toggleClass = (on: boolean) => `px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 ${on ? 'bg-blue-600 text-white' : 'bg-white/10 text-slate-300'}`;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-950 flex flex-col animate-in fade-in duration-300">
+      <div className="px-6 py-5 flex items-center justify-between text-white">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+        <h3 className="font-bold">Scan Passports{count > 0 ? ` · ${count} captured` : ''}</h3>
+        <button onClick={onClose} className="text-blue-400 font-bold text-sm uppercase">Done</button>
+      </div>
+
+      <div className="flex-1 relative overflow-hidden">
+        <video ref={videoRef} playsInline muted className="absolute inset-0 w-full h-full object-cover"></video>
+
+        {error ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-center p-8">
+            <p className="text-sm font-bold text-white max-w-sm">{error}</p>
+            <button onClick={onClose} className="mt-6 px-5 py-3 rounded-2xl bg-white/10 text-white text-[10px] font-black uppercase tracking-widest">Close</button>
+          </div>
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center p-6 pointer-events-none">
+            <div
+              ref={guideRef}
+              className={`relative w-full max-w-3xl aspect-[125/88] rounded-3xl border-4 shadow-[0_0_0_9999px_rgba(2,6,23,0.55)] transition-colors ${hint === 'captured' || hint === 'next' ? 'border-green-400' : 'border-white/90'}`}
+            >
+              <div className="absolute inset-x-3 bottom-3 h-[24%] rounded-xl border-2 border-dashed border-blue-300/80 flex items-center justify-center">
+                <span className="text-[10px] font-black text-blue-200 uppercase tracking-widest">MRZ lines here</span>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {!error && (
+          <p className="absolute top-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-full bg-slate-900/70 text-white text-xs font-bold whitespace-nowrap">
+            {!ready ? 'Starting camera…' : autoCapture ? HINTS[hint] : 'Tap the shutter to capture'}
+          </p>
+        )}
+        {flash && <div className="absolute inset-0 bg-white/80 pointer-events-none"></div>}
+      </div>
+
+      <div className="px-6 pt-5 flex items-center justify-between gap-4 safe-bottom">
+        <button onClick={() => setAutoCapture(!autoCapture)} className={toggleClass(autoCapture)}>Auto</button>
+        <button
+          onClick={capture}
+          disabled={!ready}
+          className="w-20 h-20 rounded-full bg-white border-[6px] border-slate-400 active:scale-90 transition-all disabled:opacity-40"
+          title="Capture"
+        ></button>
+        <button onClick={() => setContinuous(!continuous)} className={toggleClass(continuous)}>Continuous</button>
+      </div>
+    </div>
+  );
+};
+
+export default CameraScanner;
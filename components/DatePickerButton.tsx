@@ -0,0 +1,54 @@
+import React, { useRef } from 'react';
+import { parseDate, toIsoDate } from '../services/dateService';
+
+interface DatePickerButtonProps {
+  value?: string;
+  onPick: (isoDate: string) => void;
+  className?: string;
+}
+
+// A calendar button that opens the browser's own date picker. The native input stays hidden so the
+// field next to it keeps the configured display format instead of the browser's locale format.
+const DatePickerButton: React.FC<DatePickerButtonProps> = ({ value, onPick, className = '' }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const date = parseDate(value);
+
+  const open = () => {
+    const input = inputRef.current;
+    if (!input) return;
+    try {
+      input.showPicker();
+    } catch {
+      // Older browsers without showPicker open the picker on focus or click instead
+      input.focus();
+      input.click();
+    }
+  };
+
+  return (
+    <span className={`relative inline-flex ${className}`}>
+      <button
+        type="button"
+        tabIndex={-1}
+        onClick={open}
+        className="p-1.5 rounded-lg text-slate-300 hover:text-blue-600 hover:bg-blue-50 transition-colors"
+        title="Pick a date"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+      </button>
+      <input
+        ref={inputRef}
+        type="date"
+        tabIndex={-1}
+        aria-hidden="true"
+        className="absolute inset-0 opacity-0 pointer-events-none"
+        value={date ? toIsoDate(date) : ''}
+        onChange={e => { if (e.target.value) onPick(e.target.value); }}
+      />
+    </span>
+  );
+};
+
+export default DatePickerButton;
@@ -1,15 +1,72 @@
 
-import React from 'react';
-import { PassportData } from '../types';
+import React, { useState } from 'react';
+import { DuplicateMatch, ExportDateFormat, PassportData, ValidationIssue } from '../types';
+import { dateInputHint, formatDate, isDateField, parseDate } from '../services/dateService';
+import ImageViewer from './ImageViewer';
+import DatePickerButton from './DatePickerButton';
 
 interface DetailEditorProps {
   item: PassportData;
   onClose: () => void;
   onUpdate: (field: keyof PassportData, value: string) => void;
   onDelete: () => void;
+  onRescan: (replacement?: File) => void;
+  issues?: ValidationIssue[];
+  policyNote?: string;
+  duplicates?: { match: DuplicateMatch; record: PassportData }[];
+  onOpenRecord?: (id: string) => void;
+  onResolveDuplicate?: (otherId: string) => void;
+  dateFormat: ExportDateFormat;
 }
 
-const DetailEditor: React.FC<DetailEditorProps> = ({ item, onClose, onUpdate, onDelete }) => {
+interface DateInputProps {
+  value: string;
+  format: ExportDateFormat;
+  className: string;
+  onCommit: (value: string) => void;
+}
+
+// Shows the stored date in the display format and only saves once the user leaves the field or
+// presses Enter, so a half-typed date is never stored. Escape drops what was typed.
+const DateInput: React.FC<DateInputProps> = ({ value, format, className, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const shown = formatDate(value, format);
+  const unreadable = draft !== null && draft.trim() !== '' && !parseDate(draft, 'past', format);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== shown) onCommit(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <>
+      <div className="relative">
+        <input
+          className={`${className} pr-12`}
+          value={draft ?? shown}
+          placeholder={format}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commit();
+            if (e.key === 'Escape') setDraft(null);
+          }}
+        />
+        <DatePickerButton value={value} onPick={iso => { setDraft(null); onCommit(iso); }} className="absolute right-2 top-1/2 -translate-y-1/2" />
+      </div>
+      {unreadable && <p className="text-[11px] font-bold text-red-500 mt-1.5">{dateInputHint(format)}</p>}
+    </>
+  );
+};
+
+const DetailEditor: React.FC<DetailEditorProps> = ({ item, onClose, onUpdate, onDelete, onRescan, issues = [], policyNote, duplicates = [], onOpenRecord, onResolveDuplicate, dateFormat }) => {
+  const [showImage, setShowImage] = useState(false);
+
+  const fieldBorder = (key: keyof PassportData) => {
+    const found = issues.filter(i => i.field === key);
+    if (found.length === 0) return 'border-slate-100';
+    return found.some(i => i.severity === 'error') ? 'border-red-300 bg-red-50/50' : 'border-amber-300 bg-amber-50/50';
+  };
   const fields: { key: keyof PassportData; label: string; placeholder: string; type?: string; select?: string[] }[] = [
     { key: 'passengerType', label: 'Type', placeholder: 'ADULT / CHILD / INFANT', select: ['ADULT', 'CHILD', 'INFANT'] },
     { key: 'title', label: 'Title', placeholder: 'MR / MS / MRS', select: ['MR', 'MRS', 'MS', 'MSTR', 'MISS'] },
@@ -18,9 +75,9 @@ const DetailEditor: React.FC<DetailEditorProps> = ({ item, onClose, onUpdate, on
     { key: 'passportNumber', label: 'Passport No.', placeholder: 'U9628867' },
     { key: 'nationality', label: 'Country', placeholder: 'INDIA' },
     { key: 'gender', label: 'Gender', placeholder: 'MALE / FEMALE', select: ['MALE', 'FEMALE'] },
-    { key: 'dateOfBirth', label: 'Date of Birth', placeholder: 'DD/MM/YYYY' },
-    { key: 'issueDate', label: 'Date of Issue', placeholder: 'DD/MM/YYYY' },
-    { key: 'expiryDate', label: 'Date of Expiry', placeholder: 'DD/MM/YYYY' },
+    { key: 'dateOfBirth', label: 'Date of Birth', placeholder: dateFormat },
+    { key: 'issueDate', label: 'Date of Issue', placeholder: dateFormat },
+    { key: 'expiryDate', label: 'Date of Expiry', placeholder: dateFormat },
   ];
 
   return (
@@ -35,56 +92,136 @@ const DetailEditor: React.FC<DetailEditorProps> = ({ item, onClose, onUpdate, on
         <button onClick={onClose} className="text-blue-600 font-bold text-sm uppercase">Done</button>
       </div>
 
-      <div className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar">
-        {item.isDuplicate && (
-          <div className="bg-amber-50 border border-amber-200 p-4 rounded-2xl mb-8 flex items-start gap-3">
-            <div className="text-amber-500 mt-0.5">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-              </svg>
+      <div className="flex-1 min-h-0 flex flex-col md:flex-row">
+        {/* Source image: side by side on wide screens, collapsible on phones */}
+        <div className="md:w-1/2 lg:w-3/5 md:p-6 md:border-r border-slate-100 shrink-0">
+          <button 
+            onClick={() => setShowImage(!showImage)}
+            className="md:hidden w-full px-6 py-3 flex items-center justify-between text-[10px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100"
+          >
+            Passport Image
+            <svg className={`w-4 h-4 transition-transform ${showImage ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3"><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
+          </button>
+          <div className={`${showImage ? 'block' : 'hidden'} md:block h-[45vh] md:h-full p-4 md:p-0`}>
+            <ImageViewer imageId={item.sourceImageId} fileName={item.fileName} processedImageId={item.processedImageId} quality={item.imageQuality} />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar">
+          {duplicates.length > 0 && (
+            <div className="bg-amber-50 border border-amber-200 p-4 rounded-2xl mb-8 flex items-start gap-3">
+              <div className="text-amber-500 mt-0.5">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+              </div>
+              <div className="flex-1 min-w-0">
+                <h5 className="text-amber-800 font-black text-[11px] uppercase tracking-wider">Possible Duplicate</h5>
+                {duplicates.map(({ match, record }) => (
+                  <div key={match.id} className="mt-2">
+                    <div className="flex items-center justify-between gap-3">
+                      <button onClick={() => onOpenRecord?.(match.id)} className="text-amber-900 text-xs font-black hover:underline text-left">
+                        {`${record.firstName} ${record.lastName}`.trim() || 'Unnamed'} · {record.passportNumber || 'No passport number'}
+                      </button>
+                      {onResolveDuplicate && (
+                        <button onClick={() => onResolveDuplicate(match.id)} className="text-[10px] font-black uppercase tracking-widest text-amber-800 bg-amber-100 hover:bg-amber-200 px-3 py-1.5 rounded-lg shrink-0">
+                          Resolve
+                        </button>
+                      )}
+                    </div>
+                    <ul className="text-amber-700 text-xs mt-0.5 leading-relaxed list-disc pl-4">
+                      {match.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  </div>
+                ))}
+              </div>
             </div>
-            <div>
-              <h5 className="text-amber-800 font-black text-[11px] uppercase tracking-wider">Duplicate Detected</h5>
-              <p className="text-amber-700 text-xs mt-1 leading-relaxed">
-                Another record with the same passport number or name already exists in this manifest.
-              </p>
+          )}
+
+          {item.mrzCheck && item.mrzCheck.status !== 'verified' && (
+            <div className="bg-orange-50 border border-orange-200 p-4 rounded-2xl mb-8 flex items-start gap-3">
+              <div className="text-orange-500 mt-0.5">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                  <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                </svg>
+              </div>
+              <div>
+                <h5 className="text-orange-800 font-black text-[11px] uppercase tracking-wider">MRZ Check Failed</h5>
+                <ul className="text-orange-700 text-xs mt-1 leading-relaxed list-disc pl-4">
+                  {item.mrzCheck.issues.map((issue, i) => <li key={i}>{issue.message}</li>)}
+                </ul>
+              </div>
             </div>
-          </div>
-        )}
+          )}
 
-        <div className="space-y-6">
-          {fields.map((field) => (
-            <div key={field.key}>
-              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
-                {field.label}
-              </label>
-              {field.select ? (
-                <select
-                  className="w-full bg-slate-50 border border-slate-100 px-4 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all appearance-none"
-                  value={item[field.key] as string || ''}
-                  onChange={(e) => onUpdate(field.key, e.target.value)}
-                >
-                  <option value="">Select {field.label}</option>
-                  {field.select.map(opt => <option key={opt} value={opt}>{opt}</option>)}
-                </select>
-              ) : (
-                <input
-                  className="w-full bg-slate-50 border border-slate-100 px-4 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all"
-                  value={item[field.key] as string || ''}
-                  onChange={(e) => onUpdate(field.key, e.target.value)}
-                  placeholder={field.placeholder}
-                />
+          <div className="space-y-6">
+            {fields.map((field) => (
+              <div key={field.key}>
+                <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                  {field.label}
+                </label>
+                {field.select ? (
+                  <select
+                    className={`w-full bg-slate-50 border ${fieldBorder(field.key)} px-4 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all appearance-none`}
+                    value={item[field.key] as string || ''}
+                    onChange={(e) => onUpdate(field.key, e.target.value)}
+                  >
+                    <option value="">Select {field.label}</option>
+                    {field.select.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+                  </select>
+                ) : isDateField(field.key) ? (
+                  <DateInput
+                    key={item.id}
+                    className={`w-full bg-slate-50 border ${fieldBorder(field.key)} px-4 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all`}
+                    value={item[field.key] || ''}
+                    format={dateFormat}
+                    onCommit={(value) => onUpdate(field.key, value)}
+                  />
+                ) : (
+                  <input
+                    className={`w-full bg-slate-50 border ${fieldBorder(field.key)} px-4 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all`}
+                    value={item[field.key] as string || ''}
+                    onChange={(e) => onUpdate(field.key, e.target.value)}
+                    placeholder={field.placeholder}
+                  />
+                )}
+                {field.key === 'passengerType' && policyNote && (
+                  <p className="text-[11px] font-bold text-slate-400 mt-1.5">{policyNote}</p>
+                )}
+                {((field.key === 'passengerType' && item.passengerTypeSource === 'manual') || (field.key === 'title' && item.titleSource === 'manual')) && (
+                  <p className="text-[11px] font-bold text-slate-400 mt-1.5">
+                    Set by hand ·{' '}
+                    <button onClick={() => onUpdate(field.key, '')} className="text-blue-600 hover:underline">Use rule</button>
+                  </p>
+                )}
+                {issues.filter(i => i.field === field.key).map((issue, i) => (
+                  <p key={i} className={`text-[11px] font-bold mt-1.5 ${issue.severity === 'error' ? 'text-red-500' : 'text-amber-600'}`}>{issue.message}</p>
+                ))}
+              </div>
+            ))}
+          
+            <div className="pt-6 space-y-3">
+              {item.status !== 'processing' && (
+                <div className="grid grid-cols-2 gap-3">
+                  <button 
+                    onClick={() => onRescan()}
+                    className="py-4 text-blue-600 font-bold text-sm bg-blue-50 rounded-2xl active:bg-blue-100 transition-colors"
+                  >
+                    Retry Scan
+                  </button>
+                  <label className="py-4 text-blue-600 font-bold text-sm bg-blue-50 rounded-2xl active:bg-blue-100 transition-colors text-center cursor-pointer">
+                    Replace Image
+                    <input type="file" className="hidden" accept="image/*" onChange={e => { const f = e.target.files?.[0]; if (f) onRescan(f); e.target.value = ''; }} />
+                  </label>
+                </div>
               )}
+              <button 
+                onClick={() => { if(confirm('Delete this record?')) onDelete(); }}
+                className="w-full py-4 text-red-500 font-bold text-sm bg-red-50 rounded-2xl active:bg-red-100 transition-colors"
+              >
+                Delete Passenger
+              </button>
             </div>
-          ))}
-          
-          <div className="pt-6">
-            <button 
-              onClick={() => { if(confirm('Delete this record?')) onDelete(); }}
-              className="w-full py-4 text-red-500 font-bold text-sm bg-red-50 rounded-2xl active:bg-red-100 transition-colors"
-            >
-              Delete Passenger
-            </button>
           </div>
         </div>
       </div>
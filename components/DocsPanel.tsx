@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { PassportData } from '../types';
+import { buildDocsLines } from '../services/gdsService';
+import { downloadFile } from '../services/exportFormats';
+
+interface DocsPanelProps {
+  passports: PassportData[];
+  defaultCarrier: string;
+  fileName: string;
+  onClose: () => void;
+}
+
+const DocsPanel: React.FC<DocsPanelProps> = ({ passports, defaultCarrier, fileName, onClose }) => {
+  const [carrier, setCarrier] = useState(defaultCarrier);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  const lines = useMemo(() => buildDocsLines(passports, carrier || 'YY'), [passports, carrier]);
+  const ready = lines.filter(l => l.errors.length === 0);
+  const blocked = lines.length - ready.length;
+  const nameOf = (id: string) => {
+    const p = passports.find(x => x.id === id);
+    return p ? `${p.lastName} ${p.firstName}`.trim() : '';
+  };
+
+  const copy = async (text: string, key: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(key);
+      setTimeout(() => setCopied(c => c === key ? null : c), 1500);
+    } catch {
+      alert('Copy failed. Select the text and copy it manually.');
+    }
+  };
+
+  const download = () => downloadFile(ready.map(l => l.text).join('\r\n') + '\r\n', fileName, 'text/plain');
+
+  const actionClass = "px-4 py-3 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-40";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-white flex flex-col animate-in slide-in-from-bottom duration-300">
+      <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between sticky top-0 bg-white z-10">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+        <h3 className="font-bold text-slate-800">SSR DOCS</h3>
+        <button onClick={onClose} className="text-blue-600 font-bold text-sm uppercase">Done</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex flex-wrap items-end gap-3">
+            <div>
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Carrier</label>
+              <input
+                className="w-24 bg-slate-50 border border-slate-100 px-4 py-3 rounded-xl text-sm font-bold text-slate-800 text-center outline-none focus:ring-2 focus:ring-blue-500/20 focus:bg-white"
+                value={carrier}
+                maxLength={2}
+                onChange={(e) => setCarrier(e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, ''))}
+                placeholder="YY"
+              />
+            </div>
+            <div className="flex-1"></div>
+            <button onClick={() => copy(ready.map(l => l.text).join('\n'), 'all')} disabled={ready.length === 0} className={`${actionClass} bg-blue-600 text-white`}>
+              {copied === 'all' ? 'Copied' : `Copy All (${ready.length})`}
+            </button>
+            <button onClick={download} disabled={ready.length === 0} className={`${actionClass} bg-slate-900 text-white`}>
+              Download .txt
+            </button>
+          </div>
+
+          {blocked > 0 && (
+            <p className="text-xs font-bold text-amber-600">{blocked} passenger{blocked === 1 ? '' : 's'} left out until the missing details are fixed.</p>
+          )}
+
+          {lines.length === 0 && <p className="text-sm text-slate-400 font-medium py-8 text-center">No completed passengers yet.</p>}
+
+          <div className="space-y-2">
+            {lines.map(line => (
+              <div key={line.id} className={`p-4 rounded-2xl border ${line.errors.length ? 'border-amber-200 bg-amber-50/50' : 'border-slate-100 bg-slate-50'}`}>
+                <div className="flex items-center justify-between gap-3 mb-2">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest truncate">P{line.paxNumber || '?'} · {nameOf(line.id)}</span>
+                  {line.errors.length === 0 && (
+                    <button onClick={() => copy(line.text, line.id)} className="text-[10px] font-black text-blue-600 uppercase tracking-widest hover:underline shrink-0">
+                      {copied === line.id ? 'Copied' : 'Copy'}
+                    </button>
+                  )}
+                </div>
+                <pre className="text-xs font-mono text-slate-800 whitespace-pre-wrap break-all select-all">{line.text}</pre>
+                {line.errors.map((error, i) => <p key={i} className="text-[11px] font-bold text-amber-600 mt-1.5">{error}</p>)}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocsPanel;
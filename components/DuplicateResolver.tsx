@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { DuplicateMatch, ExportDateFormat, PassportData } from '../types';
+import { formatDate, isDateField } from '../services/dateService';
+
+interface DuplicateResolverProps {
+  left: PassportData;
+  right: PassportData;
+  match?: DuplicateMatch;
+  onKeep: (keepId: string, removeId: string) => void;
+  onMerge: (merged: PassportData, removeId: string) => void;
+  onDismiss: () => void;
+  onClose: () => void;
+  dateFormat: ExportDateFormat;
+}
+
+type Side = 'left' | 'right';
+
+const MERGED_FIELDS: { key: keyof PassportData; label: string }[] = [
+  { key: 'passengerType', label: 'Type' },
+  { key: 'title', label: 'Title' },
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'passportNumber', label: 'Passport No.' },
+  { key: 'nationality', label: 'Country' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'dateOfBirth', label: 'Date of Birth' },
+  { key: 'issueDate', label: 'Date of Issue' },
+  { key: 'expiryDate', label: 'Date of Expiry' },
+  { key: 'fileName', label: 'Source Image' },
+];
+
+// Fields that travel with the one picked above, so the merged record stays consistent
+const LINKED_FIELDS: Partial<Record<keyof PassportData, (keyof PassportData)[]>> = {
+  passengerType: ['passengerTypeSource'],
+  title: ['titleSource'],
+  fileName: ['sourceImageId', 'processedImageId', 'imageQuality', 'mrz'],
+};
+
+const DuplicateResolver: React.FC<DuplicateResolverProps> = ({ left, right, match, onKeep, onMerge, onDismiss, onClose, dateFormat }) => {
+  const show = (key: keyof PassportData, value: unknown) => isDateField(key) ? formatDate(value as string, dateFormat) : String(value ?? '');
+  const rows = MERGED_FIELDS.map(field => {
+    const leftValue = show(field.key, left[field.key]);
+    const rightValue = show(field.key, right[field.key]);
+    return { ...field, leftValue, rightValue, differs: leftValue.trim().toUpperCase() !== rightValue.trim().toUpperCase() };
+  });
+
+  // Start each field from whichever side has a value, preferring the left record
+  const [picks, setPicks] = useState<Partial<Record<keyof PassportData, Side>>>(() =>
+    Object.fromEntries(rows.map(r => [r.key, !r.leftValue.trim() && r.rightValue.trim() ? 'right' : 'left']))
+  );
+  const differCount = rows.filter(r => r.differs).length;
+
+  const merge = () => {
+    const merged: PassportData = { ...left };
+    MERGED_FIELDS.forEach(({ key }) => {
+      if (picks[key] !== 'right') return;
+      [key, ...(LINKED_FIELDS[key] || [])].forEach(k => Object.assign(merged, { [k]: right[k] }));
+    });
+    onMerge(merged, right.id);
+  };
+
+  const cellClass = (row: typeof rows[number], side: Side) => {
+    const picked = picks[row.key] === side;
+    if (!row.differs) return 'text-slate-700';
+    return picked ? 'bg-blue-50 text-blue-700 ring-2 ring-blue-500/30' : 'text-slate-400 hover:bg-slate-50';
+  };
+
+  const label = (p: PassportData) => `${p.firstName} ${p.lastName}`.trim() || 'Unnamed';
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/40 backdrop-blur-sm flex items-end md:items-center justify-center p-0 md:p-6 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-3xl rounded-t-[2.5rem] md:rounded-[2.5rem] shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="px-8 py-6 border-b border-slate-100 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="font-extrabold text-lg text-slate-800">Resolve Duplicate</h3>
+            <p className="text-xs text-slate-500 font-medium mt-1">
+              {differCount === 0 ? 'Both records hold the same details.' : `${differCount} field${differCount === 1 ? '' : 's'} differ. Tap a value to use it in the merged record.`}
+            </p>
+            {match && <p className="text-xs text-amber-700 font-bold mt-1">{match.reasons.join(' · ')}</p>}
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-slate-400">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 py-4 custom-scrollbar">
+          <table className="w-full text-left table-fixed">
+            <thead>
+              <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="py-3 pr-4 w-32">Field</th>
+                <th className="py-3 pr-2 truncate">{label(left)}</th>
+                <th className="py-3 truncate">{label(right)}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(row => (
+                <tr key={row.key} className={row.differs ? 'bg-amber-50/60' : ''}>
+                  <td className="py-2 pr-4 text-[11px] font-black text-slate-400 uppercase tracking-wider">{row.label}</td>
+                  {(['left', 'right'] as Side[]).map(side => (
+                    <td key={side} className="py-2 pr-2">
+                      <button
+                        disabled={!row.differs}
+                        onClick={() => setPicks(prev => ({ ...prev, [row.key]: side }))}
+                        className={`w-full text-left px-3 py-2 rounded-xl text-sm font-bold break-all transition-all ${cellClass(row, side)}`}
+                      >
+                        {(side === 'left' ? row.leftValue : row.rightValue) || '—'}
+                      </button>
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-8 py-6 border-t border-slate-100 grid grid-cols-2 md:grid-cols-4 gap-3 safe-bottom">
+          <button onClick={onDismiss} className="py-4 text-slate-500 font-bold text-sm bg-slate-100 rounded-2xl active:bg-slate-200 transition-colors">
+            Not a Duplicate
+          </button>
+          <button onClick={() => onKeep(left.id, right.id)} className="py-4 text-blue-600 font-bold text-sm bg-blue-50 rounded-2xl active:bg-blue-100 transition-colors truncate px-2">
+            Keep Left
+          </button>
+          <button onClick={() => onKeep(right.id, left.id)} className="py-4 text-blue-600 font-bold text-sm bg-blue-50 rounded-2xl active:bg-blue-100 transition-colors truncate px-2">
+            Keep Right
+          </button>
+          <button onClick={merge} className="py-4 text-white font-bold text-sm bg-blue-600 rounded-2xl active:scale-95 transition-all">
+            Merge
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateResolver;
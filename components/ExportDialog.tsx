@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { ExportColumnKey, ExportDateFormat, ExportFormat, ExportTemplate } from '../types';
+import { copyTemplate, DATE_FORMATS, EXPORT_COLUMNS, FILE_NAME_TOKENS } from '../services/exportTemplates';
+
+interface ExportDialogProps {
+  templates: ExportTemplate[];
+  selectedId: string;
+  onSelect: (id: string) => void;
+  onTemplatesChange: (templates: ExportTemplate[]) => void;
+  previewFileName: (template: ExportTemplate, format: ExportFormat) => string;
+  onExport: (template: ExportTemplate, format: ExportFormat) => void;
+  selectionCount?: number;
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { id: ExportFormat; label: string; description: string; action: string }[] = [
+  { id: 'xlsx', label: 'Excel', description: 'Styled .xlsx sheet', action: 'Export to Excel' },
+  { id: 'csv', label: 'CSV', description: 'For airline upload portals', action: 'Export CSV' },
+  { id: 'json', label: 'JSON', description: 'For the booking system', action: 'Export JSON' },
+  { id: 'print', label: 'Print / PDF', description: 'Manifest for tour leaders', action: 'Print Manifest' },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ templates, selectedId, onSelect, onTemplatesChange, previewFileName, onExport, selectionCount, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const selected = templates.find(t => t.id === selectedId) || templates[0];
+  const locked = !!selected.builtIn;
+
+  const update = (changes: Partial<ExportTemplate>) => {
+    onTemplatesChange(templates.map(t => t.id === selected.id ? { ...t, ...changes } : t));
+  };
+
+  const duplicate = () => {
+    const copy = copyTemplate(selected);
+    onTemplatesChange([...templates, copy]);
+    onSelect(copy.id);
+  };
+
+  const remove = () => {
+    if (locked || !confirm(`Delete the "${selected.name}" template?`)) return;
+    onTemplatesChange(templates.filter(t => t.id !== selected.id));
+    onSelect(templates[0].id);
+  };
+
+  const moveColumn = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= selected.columns.length) return;
+    const next = [...selected.columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    update({ columns: next });
+  };
+
+  const addColumn = (key: ExportColumnKey) => {
+    const option = EXPORT_COLUMNS.find(c => c.key === key);
+    if (option) update({ columns: [...selected.columns, { key, header: option.header }] });
+  };
+
+  const inputClass = "w-full bg-slate-50 border border-slate-100 px-4 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all disabled:opacity-60";
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2";
+  const actionClass = "px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-colors";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-white flex flex-col animate-in slide-in-from-bottom duration-300">
+      <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between sticky top-0 bg-white z-10">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+        <h3 className="font-bold text-slate-800">{selectionCount ? `Export ${selectionCount} Selected` : 'Export'}</h3>
+        <button onClick={() => onExport(selected, format)} disabled={selected.columns.length === 0} className="text-blue-600 font-bold text-sm uppercase disabled:text-slate-300">Export</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar">
+        <div className="max-w-4xl mx-auto space-y-8">
+          <div>
+            <label className={labelClass}>Format</label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {FORMAT_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setFormat(option.id)}
+                  className={`p-3 rounded-2xl border text-left transition-all ${format === option.id ? 'border-blue-500 bg-blue-50/50 ring-2 ring-blue-500/20' : 'border-slate-100 bg-slate-50 hover:border-blue-200'}`}
+                >
+                  <span className="block text-sm font-black text-slate-800">{option.label}</span>
+                  <span className="block text-[11px] text-slate-500 mt-0.5">{option.description}</span>
+                </button>
+              ))}
+            </div>
+            {format === 'json' && <p className="text-[11px] text-slate-400 mt-2">JSON uses a fixed schema with ISO dates; the template below does not apply.</p>}
+            {format === 'print' && <p className="text-[11px] text-slate-400 mt-2">Chrome and Edge number the printed pages. In other browsers, turn on Headers and footers in the print dialog to get page numbers.</p>}
+          </div>
+
+          <div>
+            <label className={labelClass}>Template</label>
+            <div className="flex flex-wrap gap-2">
+              {templates.map(t => (
+                <button
+                  key={t.id}
+                  onClick={() => onSelect(t.id)}
+                  className={`px-4 py-2.5 rounded-xl text-xs font-black border transition-all ${t.id === selected.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-600 border-slate-200 hover:border-blue-300'}`}
+                >
+                  {t.name}
+                </button>
+              ))}
+            </div>
+            <div className="flex flex-wrap items-center gap-1 mt-3 -ml-3">
+              <button onClick={duplicate} className={`${actionClass} text-slate-500 hover:bg-slate-100`}>{locked ? 'Duplicate to Edit' : 'Duplicate'}</button>
+              {!locked && <button onClick={remove} className={`${actionClass} text-red-500 hover:bg-red-50`}>Delete</button>}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className={labelClass}>Template Name</label>
+              <input className={inputClass} value={selected.name} disabled={locked} onChange={e => update({ name: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Date Format</label>
+              <select className={`${inputClass} appearance-none`} value={selected.dateFormat} disabled={locked} onChange={e => update({ dateFormat: e.target.value as ExportDateFormat })}>
+                {DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>File Name</label>
+              <input className={inputClass} value={selected.fileNamePattern} disabled={locked} onChange={e => update({ fileNamePattern: e.target.value })} />
+              <p className="text-[11px] text-slate-400 mt-1.5">{FILE_NAME_TOKENS.join(' ')} → <span className="font-bold text-slate-600">{previewFileName(selected, format)}</span></p>
+            </div>
+            <div>
+              <label className={labelClass}>Sheet Name</label>
+              <input className={inputClass} value={selected.sheetNamePattern} disabled={locked} onChange={e => update({ sheetNamePattern: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>Header Colours (Fill / Text)</label>
+              <div className="flex items-center gap-3">
+                <input type="color" className="w-14 h-11 rounded-xl border border-slate-100 disabled:opacity-60" value={`#${selected.headerFill}`} disabled={locked} onChange={e => update({ headerFill: e.target.value.slice(1).toUpperCase() })} />
+                <input type="color" className="w-14 h-11 rounded-xl border border-slate-100 disabled:opacity-60" value={`#${selected.headerFont}`} disabled={locked} onChange={e => update({ headerFont: e.target.value.slice(1).toUpperCase() })} />
+                <span className="px-4 py-2 rounded-lg text-xs font-black" style={{ background: `#${selected.headerFill}`, color: `#${selected.headerFont}` }}>FIRST NAME</span>
+              </div>
+            </div>
+            <div>
+              <label className={labelClass}>Title Rows</label>
+              <button
+                onClick={() => !locked && update({ includeTitleRows: !selected.includeTitleRows })}
+                className="w-full flex items-center justify-between gap-4 px-4 py-3 rounded-xl border border-slate-100 bg-slate-50 text-left"
+              >
+                <span className="text-sm font-bold text-slate-700">Group name and trip details above the headers</span>
+                <span className={`w-12 h-7 rounded-full p-1 transition-colors shrink-0 ${selected.includeTitleRows ? 'bg-blue-600' : 'bg-slate-200'}`}>
+                  <span className={`block w-5 h-5 bg-white rounded-full shadow transition-transform ${selected.includeTitleRows ? 'translate-x-5' : ''}`}></span>
+                </span>
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Columns</label>
+            <div className="space-y-2">
+              {selected.columns.map((column, index) => (
+                <div key={`${column.key}-${index}`} className="flex items-center gap-2 p-2 rounded-2xl border border-slate-100 bg-slate-50">
+                  <span className="w-8 text-center text-[10px] font-black text-slate-400">{index + 1}</span>
+                  <span className="w-40 text-xs font-bold text-slate-500 truncate">{EXPORT_COLUMNS.find(c => c.key === column.key)?.label}</span>
+                  <input
+                    className="flex-1 min-w-0 bg-white border border-slate-200 px-3 py-2 rounded-xl text-sm font-bold text-slate-800 outline-none disabled:opacity-60"
+                    value={column.header}
+                    disabled={locked}
+                    onChange={e => update({ columns: selected.columns.map((c, i) => i === index ? { ...c, header: e.target.value.toUpperCase() } : c) })}
+                  />
+                  {!locked && (
+                    <>
+                      <button onClick={() => moveColumn(index, -1)} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-white font-black" title="Move up">↑</button>
+                      <button onClick={() => moveColumn(index, 1)} className="w-8 h-8 rounded-lg text-slate-400 hover:bg-white font-black" title="Move down">↓</button>
+                      <button onClick={() => update({ columns: selected.columns.filter((_, i) => i !== index) })} className="w-8 h-8 rounded-lg text-slate-300 hover:text-red-500 font-black" title="Remove">×</button>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+            {!locked && (
+              <select className={`${inputClass} mt-3 appearance-none`} value="" onChange={e => e.target.value && addColumn(e.target.value as ExportColumnKey)}>
+                <option value="">+ Add column…</option>
+                {EXPORT_COLUMNS.map(c => <option key={c.key} value={c.key}>{c.label}</option>)}
+              </select>
+            )}
+          </div>
+
+          <button
+            onClick={() => onExport(selected, format)}
+            disabled={selected.columns.length === 0}
+            className="w-full py-4 bg-slate-900 text-white rounded-2xl text-sm font-black uppercase tracking-widest shadow-xl active:scale-95 transition-all disabled:opacity-40"
+          >
+            {FORMAT_OPTIONS.find(o => o.id === format)?.action}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,136 @@
+import React from 'react';
+import { DateField, ExportDateFormat, FilterState, FilterView, PassengerType, PassportData } from '../types';
+import { createFilterView, filterChips } from '../services/filterService';
+
+interface FilterBarProps {
+  filters: FilterState;
+  onChange: (filters: FilterState) => void;
+  views: FilterView[];
+  onViewsChange: (views: FilterView[]) => void;
+  showAdvanced: boolean;
+  nationalities: string[];
+  dateFormat: ExportDateFormat;
+}
+
+const STATUS_OPTIONS: { value: PassportData['status'] | 'all'; label: string }[] = [
+  { value: 'all', label: 'Any status' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'error', label: 'Error' },
+];
+
+const TYPE_OPTIONS: (PassengerType | 'all')[] = ['all', 'ADULT', 'CHILD', 'INFANT'];
+
+const FilterBar: React.FC<FilterBarProps> = ({ filters, onChange, views, onViewsChange, showAdvanced, nationalities, dateFormat }) => {
+  const chips = filterChips(filters, dateFormat);
+  const update = (changes: Partial<FilterState>) => onChange({ ...filters, ...changes });
+  const isActiveView = (view: FilterView) => JSON.stringify(view.filters) === JSON.stringify(filters);
+
+  const saveView = () => {
+    const name = prompt('Name this view', chips.map(c => c.label).join(', '))?.trim();
+    if (name) onViewsChange([...views, createFilterView(name, filters)]);
+  };
+
+  const deleteView = (view: FilterView) => {
+    if (confirm(`Delete the "${view.name}" view?`)) onViewsChange(views.filter(v => v.id !== view.id));
+  };
+
+  const labelClass = "text-[11px] font-black text-slate-400 uppercase tracking-widest mb-2 block";
+  const inputClass = "w-full bg-slate-100/50 border border-slate-200 px-4 py-4 rounded-2xl text-base font-bold text-slate-700 outline-none focus:ring-4 focus:ring-blue-100 transition-all";
+  const toggleClass = (on: boolean) => `flex-1 px-4 py-4 rounded-2xl text-xs font-black uppercase tracking-widest border transition-all ${on ? 'bg-slate-900 text-white border-slate-900' : 'bg-slate-100/50 text-slate-500 border-slate-200'}`;
+
+  return (
+    <div className="mb-6 space-y-4">
+      <div className="relative">
+        <svg className="w-5 h-5 text-slate-300 absolute left-5 top-1/2 -translate-y-1/2" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2.5"><path strokeLinecap="round" strokeLinejoin="round" d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+        <input
+          className="w-full bg-white border border-slate-200 pl-14 pr-5 py-4 rounded-2xl text-sm font-bold text-slate-700 outline-none focus:ring-4 focus:ring-blue-100 shadow-sm transition-all"
+          placeholder="Search names or passport numbers"
+          value={filters.search}
+          onChange={e => update({ search: e.target.value })}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest mr-1">Views</span>
+        {views.map(view => (
+          <span key={view.id} className={`inline-flex items-center rounded-xl border text-[10px] font-black uppercase tracking-widest transition-all ${isActiveView(view) ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}>
+            <button onClick={() => onChange(view.filters)} className="px-4 py-2">{view.name}</button>
+            {!view.builtIn && <button onClick={() => deleteView(view)} className="pr-3 -ml-1 opacity-60 hover:opacity-100" title="Delete view">×</button>}
+          </span>
+        ))}
+        {chips.length > 0 && (
+          <button onClick={saveView} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-blue-600 hover:bg-blue-50 transition-colors">+ Save View</button>
+        )}
+      </div>
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {chips.map(chip => (
+            <span key={chip.key} className="inline-flex items-center gap-2 pl-3 pr-2 py-1.5 rounded-full bg-blue-50 text-blue-700 text-xs font-bold">
+              {chip.label}
+              <button onClick={() => update(chip.clear)} className="w-5 h-5 rounded-full hover:bg-blue-100 font-black leading-none" title="Remove filter">×</button>
+            </span>
+          ))}
+          <button onClick={() => update(chips.reduce((acc, c) => ({ ...acc, ...c.clear }), {}))} className="text-[10px] font-black uppercase tracking-widest text-slate-400 hover:text-blue-600 ml-1">Clear All</button>
+        </div>
+      )}
+
+      {showAdvanced && (
+        <div className="glass-card p-8 rounded-[2.5rem] border-white shadow-2xl max-w-3xl mx-auto animate-in slide-in-from-top-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className={labelClass}>Status</label>
+              <select className={inputClass} value={filters.status} onChange={e => update({ status: e.target.value as FilterState['status'] })}>
+                {STATUS_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Passenger Type</label>
+              <select className={inputClass} value={filters.passengerType} onChange={e => update({ passengerType: e.target.value as FilterState['passengerType'] })}>
+                {TYPE_OPTIONS.map(t => <option key={t} value={t}>{t === 'all' ? 'Any type' : t}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Country</label>
+              <select className={inputClass} value={filters.nationality} onChange={e => update({ nationality: e.target.value })}>
+                <option value="">Any country</option>
+                {nationalities.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Gender</label>
+              <select className={inputClass} value={filters.gender} onChange={e => update({ gender: e.target.value })}>
+                <option value="">Any gender</option>
+                <option value="MALE">MALE</option>
+                <option value="FEMALE">FEMALE</option>
+              </select>
+            </div>
+            <div className="md:col-span-2 flex gap-3">
+              <button onClick={() => update({ duplicatesOnly: !filters.duplicatesOnly })} className={toggleClass(filters.duplicatesOnly)}>Duplicates Only</button>
+              <button onClick={() => update({ issuesOnly: !filters.issuesOnly })} className={toggleClass(filters.issuesOnly)}>Needs Attention</button>
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClass}>Date Criterion</label>
+              <select className={inputClass} value={filters.field} onChange={e => update({ field: e.target.value as DateField })}>
+                <option value="expiryDate">Passport Expiry</option>
+                <option value="issueDate">Passport Issue Date</option>
+                <option value="dateOfBirth">Date of Birth</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>From Date</label>
+              <input type="date" className={inputClass} value={filters.startDate} onChange={e => update({ startDate: e.target.value })} />
+            </div>
+            <div>
+              <label className={labelClass}>To Date</label>
+              <input type="date" className={inputClass} value={filters.endDate} onChange={e => update({ endDate: e.target.value })} />
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FilterBar;
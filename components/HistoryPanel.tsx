@@ -0,0 +1,60 @@
+import React from 'react';
+import { HistoryEntry } from '../services/historyService';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  cursor: number;
+  onJump: (cursor: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, cursor, onJump, onClose }) => {
+  // Newest first; picking an entry moves to the state right after it
+  const rows = entries.map((entry, i) => ({ entry, position: i + 1 })).reverse();
+
+  const rowClass = (position: number) => {
+    if (position === cursor) return 'bg-blue-50 border-blue-200 ring-2 ring-blue-500/20';
+    return position > cursor ? 'bg-white border-slate-100 opacity-50 hover:opacity-100' : 'bg-white border-slate-100 hover:border-blue-200';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex justify-end animate-in fade-in duration-200">
+      <div className="absolute inset-0 bg-slate-900/30" onClick={onClose}></div>
+      <div className="relative w-full max-w-sm bg-white h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-300">
+        <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800">History</h3>
+          <button onClick={onClose} className="text-blue-600 font-bold text-sm uppercase">Done</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-4 py-4 space-y-2 custom-scrollbar">
+          {rows.map(({ entry, position }) => (
+            <button
+              key={entry.id}
+              onClick={() => onJump(position)}
+              className={`w-full text-left px-4 py-3 rounded-2xl border transition-all ${rowClass(position)}`}
+            >
+              <span className="block text-sm font-bold text-slate-800">{entry.label}</span>
+              <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">
+                {formatTime(entry.at)}{position > cursor ? ' · Undone' : ''}
+              </span>
+            </button>
+          ))}
+          <button
+            onClick={() => onJump(0)}
+            className={`w-full text-left px-4 py-3 rounded-2xl border transition-all ${rowClass(0)}`}
+          >
+            <span className="block text-sm font-bold text-slate-500">Start of session</span>
+          </button>
+        </div>
+
+        <p className="px-6 py-4 border-t border-slate-100 text-[11px] text-slate-400 safe-bottom">
+          Pick an entry to go back to that point. Making a change from there discards the undone entries.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
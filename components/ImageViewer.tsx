@@ -0,0 +1,171 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageQuality } from '../types';
+import { getSourceImage } from '../services/sourceImages';
+
+interface ImageViewerProps {
+  imageId?: string;
+  fileName: string;
+  // The preprocessed copy that went to extraction, when there is one
+  processedImageId?: string;
+  quality?: ImageQuality;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 6;
+const MRZ_ZOOM = 2.5;
+
+const formatBytes = (bytes: number) => bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
+const ImageViewer: React.FC<ImageViewerProps> = ({ imageId, fileName, processedImageId, quality }) => {
+  const [showProcessed, setShowProcessed] = useState(false);
+  const shownId = showProcessed && processedImageId ? processedImageId : imageId;
+  const [url, setUrl] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [zoom, setZoom] = useState(1);
+  const [rotation, setRotation] = useState(0);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [mrzFocus, setMrzFocus] = useState(false);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const frameRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    setLoading(true);
+    setUrl(null);
+    setText(null);
+    getSourceImage(shownId, fileName).then(async file => {
+      if (cancelled || !file) return;
+      // MRZ text uploads have no picture, so show what was pasted instead
+      if (file.type.startsWith('text/')) {
+        const content = await file.text();
+        if (!cancelled) setText(content);
+        return;
+      }
+      objectUrl = URL.createObjectURL(file);
+      setUrl(objectUrl);
+    }).finally(() => { if (!cancelled) setLoading(false); });
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [shownId, fileName]);
+
+  const reset = () => {
+    setZoom(1);
+    setPan({ x: 0, y: 0 });
+    setRotation(0);
+    setMrzFocus(false);
+  };
+
+  const changeZoom = (delta: number) => {
+    setZoom(z => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, +(z + delta).toFixed(2))));
+  };
+
+  const toggleMrz = () => {
+    setPan({ x: 0, y: 0 });
+    setZoom(mrzFocus ? 1 : MRZ_ZOOM);
+    setMrzFocus(!mrzFocus);
+  };
+
+  // Wheel zoom needs a non-passive listener so the page doesn't scroll underneath
+  useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      changeZoom(e.deltaY < 0 ? 0.25 : -0.25);
+    };
+    frame.addEventListener('wheel', onWheel, { passive: false });
+    return () => frame.removeEventListener('wheel', onWheel);
+  }, [url]);
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (zoom <= 1) return;
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX - pan.x, y: e.clientY - pan.y };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    setPan({ x: e.clientX - dragRef.current.x, y: e.clientY - dragRef.current.y });
+  };
+
+  const onPointerUp = () => { dragRef.current = null; };
+
+  const toolClass = "px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white/10 text-white hover:bg-white/20 active:scale-95 transition-all";
+
+  if (loading) {
+    return (
+      <div className="h-full min-h-[240px] bg-slate-900 rounded-3xl flex items-center justify-center">
+        <div className="w-8 h-8 border-3 border-blue-400 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
+  if (text !== null) {
+    return (
+      <div className="h-full min-h-[240px] bg-slate-900 rounded-3xl p-6 overflow-auto custom-scrollbar">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Source Text</p>
+        <pre className="text-green-300 text-xs font-mono whitespace-pre-wrap break-all">{text}</pre>
+      </div>
+    );
+  }
+
+  if (!url) {
+    return (
+      <div className="h-full min-h-[240px] bg-slate-100 rounded-3xl flex flex-col items-center justify-center text-center p-8">
+        <svg className="w-10 h-10 text-slate-300 mb-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="2"><path strokeLinecap="round" strokeLinejoin="round" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" /></svg>
+        <p className="text-sm font-bold text-slate-500">Source image not available</p>
+        <p className="text-xs text-slate-400 mt-1">Turn on "Keep source images" in Setup to keep images after a reload.</p>
+        {showProcessed && (
+          <button onClick={() => setShowProcessed(false)} className="mt-4 text-[10px] font-black text-blue-600 uppercase tracking-widest">Show Original</button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full min-h-[280px] bg-slate-900 rounded-3xl overflow-hidden flex flex-col">
+      <div
+        ref={frameRef}
+        className={`flex-1 relative overflow-hidden select-none touch-none ${zoom > 1 ? 'cursor-grab active:cursor-grabbing' : ''}`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={onPointerUp}
+      >
+        <img
+          src={url}
+          alt={fileName}
+          draggable={false}
+          className="absolute inset-0 w-full h-full object-contain transition-transform duration-150"
+          style={{
+            transform: `translate(${pan.x}px, ${pan.y}px) rotate(${rotation}deg) scale(${zoom})`,
+            // The MRZ sits along the bottom of the data page, so zoom towards it
+            transformOrigin: mrzFocus ? '50% 88%' : '50% 50%',
+          }}
+        />
+      </div>
+      {showProcessed && quality && (
+        <p className="px-4 pt-3 bg-slate-950/60 text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">
+          Sharpness {quality.sharpness} · Glare {Math.round(quality.glare * 100)}% · {quality.width}×{quality.height}{quality.cropped ? ' · Cropped' : ''} · {formatBytes(quality.originalBytes)} → {formatBytes(quality.bytes)}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center justify-center gap-2 p-3 bg-slate-950/60">
+        <button onClick={() => changeZoom(-0.5)} className={toolClass} title="Zoom out">−</button>
+        <span className="text-[10px] font-black text-slate-400 w-12 text-center">{Math.round(zoom * 100)}%</span>
+        <button onClick={() => changeZoom(0.5)} className={toolClass} title="Zoom in">+</button>
+        <button onClick={() => setRotation(r => (r + 90) % 360)} className={toolClass} title="Rotate">Rotate</button>
+        <button onClick={toggleMrz} className={`${toolClass} ${mrzFocus ? '!bg-blue-600' : ''}`} title="Enlarge MRZ strip">MRZ</button>
+        <button onClick={reset} className={toolClass} title="Reset view">Reset</button>
+        {processedImageId && (
+          <button onClick={() => setShowProcessed(!showProcessed)} className={`${toolClass} ${showProcessed ? '!bg-blue-600' : ''}`} title="Show the copy that was sent for extraction">Processed</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageViewer;
@@ -0,0 +1,171 @@
+import React, { useMemo, useState } from 'react';
+import { PassportData } from '../types';
+import { autoMapColumns, buildImportRows, findHeaderRow, IMPORT_FIELDS, ImportCell, ImportedRow, ImportField, readSpreadsheet } from '../services/importService';
+
+interface ImportDialogProps {
+  onClose: () => void;
+  onImport: (rows: ImportedRow[], fileName: string) => void;
+  isDuplicate: (details: Partial<PassportData>) => boolean;
+}
+
+const PREVIEW_LIMIT = 20;
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ onClose, onImport, isDuplicate }) => {
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportCell[][]>([]);
+  const [headerIndex, setHeaderIndex] = useState(0);
+  const [mapping, setMapping] = useState<(ImportField | null)[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadFile = async (file: File) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.length === 0) throw new Error('The first sheet is empty.');
+      const header = findHeaderRow(data);
+      setFileName(file.name);
+      setRows(data);
+      setHeaderIndex(header);
+      setMapping(autoMapColumns(data[header]));
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${(err instanceof Error && err.message) || 'unknown error'}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const changeHeaderRow = (index: number) => {
+    setHeaderIndex(index);
+    setMapping(autoMapColumns(rows[index] || []));
+  };
+
+  // Each field can only come from one column, so picking it again clears the old column
+  const mapColumn = (column: number, field: ImportField | null) => {
+    setMapping(prev => prev.map((f, i) => i === column ? field : f === field ? null : f));
+  };
+
+  const headers = rows[headerIndex] || [];
+  const sample = rows.slice(headerIndex + 1).find(row => row.some(cell => String(cell).trim() !== '')) || [];
+  const imported = useMemo(() => buildImportRows(rows, headerIndex, mapping), [rows, headerIndex, mapping]);
+  const duplicates = useMemo(() => imported.filter(r => isDuplicate(r.details)).length, [imported, isDuplicate]);
+  const mappedFields = IMPORT_FIELDS.filter(f => mapping.includes(f.field));
+  const unmappedCount = headers.filter((h, i) => String(h).trim() && !mapping[i]).length;
+
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2";
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-white flex flex-col animate-in slide-in-from-bottom duration-300">
+      <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between sticky top-0 bg-white z-10">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+        <h3 className="font-bold text-slate-800">Import Passenger List</h3>
+        <button
+          onClick={() => onImport(imported, fileName)}
+          disabled={imported.length === 0}
+          className="text-blue-600 font-bold text-sm uppercase disabled:text-slate-300"
+        >
+          Import
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar">
+        <div className="max-w-5xl mx-auto space-y-8">
+          <label className="block p-8 rounded-[2rem] border-2 border-dashed border-slate-200 hover:border-blue-300 bg-slate-50 text-center cursor-pointer transition-colors">
+            <span className="block text-sm font-black text-slate-700">{loading ? 'Reading…' : fileName || 'Choose an XLSX or CSV file'}</span>
+            <span className="block text-xs text-slate-400 mt-1">Columns named like our Excel export are matched automatically.</span>
+            <input type="file" className="hidden" accept=".xlsx,.xls,.csv" onChange={e => { const f = e.target.files?.[0]; if (f) loadFile(f); e.target.value = ''; }} />
+          </label>
+
+          {error && <p className="text-sm font-bold text-red-500">{error}</p>}
+
+          {rows.length > 0 && (
+            <>
+              <div>
+                <div className="flex items-end justify-between gap-4 mb-3">
+                  <label className={labelClass}>Column Mapping</label>
+                  <label className="flex items-center gap-2 text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                    Header Row
+                    <select
+                      className="bg-slate-50 border border-slate-100 px-3 py-2 rounded-xl text-sm font-bold text-slate-800 outline-none"
+                      value={headerIndex}
+                      onChange={e => changeHeaderRow(Number(e.target.value))}
+                    >
+                      {rows.slice(0, 20).map((_, i) => <option key={i} value={i}>{i + 1}</option>)}
+                    </select>
+                  </label>
+                </div>
+                {unmappedCount > 0 && (
+                  <p className="text-xs font-bold text-amber-600 mb-3">{unmappedCount} column{unmappedCount === 1 ? '' : 's'} not recognised. Pick a field or leave them ignored.</p>
+                )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {headers.map((header, column) => (
+                    <div key={column} className={`flex items-center gap-3 p-3 rounded-2xl border ${mapping[column] ? 'border-slate-100 bg-slate-50' : 'border-amber-200 bg-amber-50/50'}`}>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-black text-slate-800 truncate">{String(header).trim() || `Column ${column + 1}`}</p>
+                        <p className="text-xs text-slate-400 truncate">{String(sample[column] ?? '') || '—'}</p>
+                      </div>
+                      <select
+                        className="w-40 bg-white border border-slate-200 px-3 py-2 rounded-xl text-xs font-bold text-slate-700 outline-none"
+                        value={mapping[column] || ''}
+                        onChange={e => mapColumn(column, (e.target.value || null) as ImportField | null)}
+                      >
+                        <option value="">Ignore</option>
+                        {IMPORT_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center gap-3 mb-3">
+                  <label className={`${labelClass} !mb-0`}>Preview</label>
+                  <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{imported.length} Passengers</span>
+                  {duplicates > 0 && <span className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{duplicates} Possible Duplicate{duplicates === 1 ? '' : 's'}</span>}
+                </div>
+                {imported.length === 0 ? (
+                  <p className="text-sm text-slate-400 font-medium">No rows with a name or passport number under the header row.</p>
+                ) : (
+                  <div className="overflow-x-auto custom-scrollbar rounded-2xl border border-slate-100">
+                    <table className="w-full text-left text-xs">
+                      <thead>
+                        <tr className="bg-slate-50 text-slate-400">
+                          <th className="px-3 py-3 font-black uppercase tracking-widest text-[10px]">Row</th>
+                          {mappedFields.map(f => <th key={f.field} className="px-3 py-3 font-black uppercase tracking-widest text-[10px] whitespace-nowrap">{f.label}</th>)}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {imported.slice(0, PREVIEW_LIMIT).map(row => (
+                          <tr key={row.rowNumber} className={`border-t border-slate-100 ${isDuplicate(row.details) ? 'bg-amber-50/60' : ''}`}>
+                            <td className="px-3 py-2 font-bold text-slate-400">{row.rowNumber}</td>
+                            {mappedFields.map(f => <td key={f.field} className="px-3 py-2 font-bold text-slate-700 whitespace-nowrap">{row.details[f.field] || ''}</td>)}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                {imported.length > PREVIEW_LIMIT && <p className="text-xs text-slate-400 mt-2">Showing the first {PREVIEW_LIMIT} of {imported.length} rows.</p>}
+              </div>
+
+              <button
+                onClick={() => onImport(imported, fileName)}
+                disabled={imported.length === 0}
+                className="w-full py-4 bg-slate-900 text-white rounded-2xl text-sm font-black uppercase tracking-widest shadow-xl active:scale-95 transition-all disabled:opacity-40"
+              >
+                Import {imported.length} Passenger{imported.length === 1 ? '' : 's'}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportDialog;
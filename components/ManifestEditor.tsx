@@ -0,0 +1,54 @@
+import React from 'react';
+import { ManifestDetails } from '../types';
+
+interface ManifestEditorProps {
+  details: ManifestDetails;
+  onClose: () => void;
+  onUpdate: (field: keyof ManifestDetails, value: string) => void;
+}
+
+const ManifestEditor: React.FC<ManifestEditorProps> = ({ details, onClose, onUpdate }) => {
+  const fields: { key: keyof ManifestDetails; label: string; placeholder: string; type?: string }[] = [
+    { key: 'groupName', label: 'Group Name', placeholder: 'UMRAH GROUP MARCH' },
+    { key: 'destination', label: 'Destination', placeholder: 'JEDDAH' },
+    { key: 'departureDate', label: 'Travel / Departure Date', placeholder: 'YYYY-MM-DD', type: 'date' },
+    { key: 'returnDate', label: 'Return Date (Optional)', placeholder: 'YYYY-MM-DD', type: 'date' },
+    { key: 'bookingReference', label: 'PNR / Booking Ref', placeholder: 'X7K2QP' },
+    { key: 'airline', label: 'Airline', placeholder: 'SAUDIA' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-white flex flex-col animate-in slide-in-from-bottom duration-300">
+      <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between sticky top-0 bg-white z-10">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+        <h3 className="font-bold text-slate-800">Manifest Details</h3>
+        <button onClick={onClose} className="text-blue-600 font-bold text-sm uppercase">Done</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar">
+        <div className="space-y-6 max-w-2xl mx-auto">
+          {fields.map((field) => (
+            <div key={field.key}>
+              <label className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                {field.label}
+              </label>
+              <input
+                type={field.type || 'text'}
+                className="w-full bg-slate-50 border border-slate-100 px-4 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all"
+                value={details[field.key] || ''}
+                onChange={(e) => onUpdate(field.key, field.type === 'date' ? e.target.value : e.target.value.toUpperCase())}
+                placeholder={field.placeholder}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ManifestEditor;
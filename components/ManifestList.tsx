@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { ExportDateFormat, Manifest } from '../types';
+import { describeManifest } from '../services/manifestService';
+import { countIssues, validateManifest } from '../services/validationService';
+
+interface ManifestListProps {
+  manifests: Manifest[];
+  activeId: string;
+  onSwitch: (id: string) => void;
+  onCreate: () => void;
+  onEdit: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onArchive: (id: string, archived: boolean) => void;
+  dateFormat: ExportDateFormat;
+}
+
+const ManifestList: React.FC<ManifestListProps> = ({ manifests, activeId, onSwitch, onCreate, onEdit, onDuplicate, onArchive, dateFormat }) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const visible = manifests
+    .filter(m => !!m.archived === showArchived)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  const archivedCount = manifests.filter(m => m.archived).length;
+
+  const actionClass = "text-[10px] font-black uppercase tracking-widest px-3 py-2 rounded-xl transition-colors";
+
+  return (
+    <div className="mt-10 animate-in fade-in slide-in-from-bottom-8 duration-700">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-4">
+          <div className="w-1.5 h-8 bg-blue-600 rounded-full"></div>
+          <h3 className="text-xl font-black text-slate-800">{showArchived ? 'Archived Manifests' : 'Manifests'}</h3>
+        </div>
+        <div className="flex items-center gap-2">
+          {(archivedCount > 0 || showArchived) && (
+            <button onClick={() => setShowArchived(!showArchived)} className={`${actionClass} text-slate-400 hover:bg-slate-100`}>
+              {showArchived ? 'Show Active' : `Archived (${archivedCount})`}
+            </button>
+          )}
+          <button onClick={onCreate} className="bg-blue-600 text-white px-5 py-2.5 rounded-2xl text-xs font-black uppercase tracking-widest shadow-lg active:scale-95 transition-all">
+            New Manifest
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {visible.map(m => {
+          const isActive = m.id === activeId;
+          const summary = describeManifest(m, dateFormat);
+          const { errors } = countIssues(validateManifest(m.passports));
+          return (
+            <div
+              key={m.id}
+              className={`bg-white p-6 rounded-[2rem] border shadow-lg transition-all ${isActive ? 'border-blue-300 ring-4 ring-blue-50' : 'border-slate-100'}`}
+            >
+              <div onClick={() => onSwitch(m.id)} className="cursor-pointer">
+                <div className="flex items-center justify-between gap-3">
+                  <h4 className="font-extrabold text-lg text-slate-800 truncate">{m.groupName}</h4>
+                  {isActive && <span className="bg-blue-50 text-blue-600 text-[9px] font-black px-2.5 py-1 rounded-lg uppercase tracking-widest shrink-0">Open</span>}
+                </div>
+                <p className="text-xs text-slate-500 font-medium mt-1 truncate">{summary || 'No trip details yet'}</p>
+                <div className="flex items-center gap-3 mt-3">
+                  <p className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{m.passports.length} Passengers</p>
+                  {errors > 0 && <p className="text-[10px] text-red-500 font-black uppercase tracking-widest">{errors} Issue{errors === 1 ? '' : 's'}</p>}
+                </div>
+              </div>
+              <div className="flex flex-wrap items-center gap-1 mt-4 -ml-3">
+                <button onClick={() => onEdit(m.id)} className={`${actionClass} text-slate-500 hover:bg-slate-100`}>Edit</button>
+                <button onClick={() => onDuplicate(m.id)} className={`${actionClass} text-slate-500 hover:bg-slate-100`}>Duplicate</button>
+                <button onClick={() => onArchive(m.id, !m.archived)} className={`${actionClass} text-amber-600 hover:bg-amber-50`}>
+                  {m.archived ? 'Unarchive' : 'Archive'}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+        {visible.length === 0 && (
+          <p className="text-sm text-slate-400 font-medium py-8 text-center md:col-span-2">No {showArchived ? 'archived' : 'active'} manifests.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ManifestList;
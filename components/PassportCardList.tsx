@@ -0,0 +1,27 @@
+import React, { useRef } from 'react';
+import { DuplicateMatch, ExportDateFormat, PassportData, ValidityResult } from '../types';
+import PassportCard, { CARD_HEIGHT } from './PassportCard';
+import { useVirtualRows } from './useVirtualRows';
+
+interface PassportCardListProps {
+  data: PassportData[];
+  validity: Record<string, ValidityResult>;
+  duplicates: Record<string, DuplicateMatch[]>;
+  onOpen: (id: string) => void;
+  dateFormat: ExportDateFormat;
+}
+
+const PassportCardList: React.FC<PassportCardListProps> = ({ data, validity, duplicates, onOpen, dateFormat }) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const { start, end, before, after } = useVirtualRows(listRef, data.length, CARD_HEIGHT);
+
+  return (
+    <div ref={listRef} style={{ paddingTop: before, paddingBottom: after }}>
+      {data.slice(start, end).map(p => (
+        <PassportCard key={p.id} item={p} status={p.status} validity={validity[p.id]} isDuplicate={!!duplicates[p.id]} onOpen={onOpen} dateFormat={dateFormat} />
+      ))}
+    </div>
+  );
+};
+
+export default PassportCardList;
@@ -0,0 +1,358 @@
+import React, { memo, useRef, useState } from 'react';
+import { DuplicateMatch, ExportDateFormat, PassportData, ValidationIssue, ValidityResult } from '../types';
+import { formatDate } from '../services/dateService';
+import ValidityBadge from './ValidityBadge';
+import DatePickerButton from './DatePickerButton';
+
+// Rows are virtualised, so every row must render at exactly this height
+export const ROW_HEIGHT = 84;
+
+// Editable columns in keyboard order; a cell's position here is its data-col
+export const GRID_FIELDS: (keyof PassportData)[] = ['title', 'firstName', 'lastName', 'gender', 'passportNumber', 'nationality', 'dateOfBirth', 'issueDate', 'expiryDate'];
+
+const RANGE_CLASS = '!bg-blue-100/70 !border-blue-300';
+
+interface CellInputProps {
+  row: number;
+  col: number;
+  value: string;
+  className: string;
+  title?: string;
+  inRange: boolean;
+  uppercase?: boolean;
+  onCommit: (value: string) => void;
+}
+
+// A text cell that behaves like a spreadsheet cell: focusing selects the whole value, typing replaces
+// it, F2 or a double click edits in place (arrow keys then move the caret), Escape puts back the
+// value the cell had when it was entered.
+const CellInput: React.FC<CellInputProps> = ({ row, col, value, className, title, inRange, uppercase, onCommit }) => {
+  const [editing, setEditing] = useState(false);
+  const original = useRef(value);
+
+  const startEditing = (input: HTMLInputElement) => {
+    setEditing(true);
+    input.setSelectionRange(input.value.length, input.value.length);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'F2') {
+      e.preventDefault();
+      startEditing(e.currentTarget);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      if (value !== original.current) onCommit(original.current);
+      setEditing(false);
+      const input = e.currentTarget;
+      requestAnimationFrame(() => input.select());
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      setEditing(true);
+    }
+  };
+
+  return (
+    <input
+      data-row={row}
+      data-col={col}
+      data-editing={editing || undefined}
+      className={`${className} ${inRange ? RANGE_CLASS : ''}`}
+      title={title}
+      value={value}
+      onFocus={e => { original.current = value; setEditing(false); e.currentTarget.select(); }}
+      onBlur={() => setEditing(false)}
+      onDoubleClick={e => startEditing(e.currentTarget)}
+      onKeyDown={onKeyDown}
+      onChange={e => onCommit(uppercase ? e.target.value.toUpperCase() : e.target.value)}
+    />
+  );
+};
+
+interface DateCellProps extends Omit<CellInputProps, 'uppercase'> {
+  format: ExportDateFormat;
+}
+
+// A date cell shows the stored date in the display format. What's typed is kept as a draft and only
+// saved when the cell is left, so a half-typed date never reaches validation or the history.
+const DateCell: React.FC<DateCellProps> = ({ row, col, value, className, title, inRange, format, onCommit }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null);
+  const shown = formatDate(value, format);
+
+  const commit = () => {
+    if (draft !== null && draft.trim() !== shown) onCommit(draft.trim());
+    setDraft(null);
+    setEditing(false);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'F2') {
+      e.preventDefault();
+      setEditing(true);
+      const input = e.currentTarget;
+      input.setSelectionRange(input.value.length, input.value.length);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setDraft(null);
+      setEditing(false);
+      const input = e.currentTarget;
+      requestAnimationFrame(() => input.select());
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && !e.altKey) {
+      setEditing(true);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        data-row={row}
+        data-col={col}
+        data-editing={editing || undefined}
+        className={`${className} !pr-8 ${inRange ? RANGE_CLASS : ''}`}
+        title={title}
+        value={draft ?? shown}
+        onFocus={e => { setEditing(false); e.currentTarget.select(); }}
+        onBlur={commit}
+        onDoubleClick={e => { setEditing(true); e.currentTarget.setSelectionRange(e.currentTarget.value.length, e.currentTarget.value.length); }}
+        onKeyDown={onKeyDown}
+        onChange={e => setDraft(e.target.value)}
+      />
+      <DatePickerButton value={value} onPick={onCommit} className="absolute right-1 top-1/2 -translate-y-1/2 opacity-0 group-hover:opacity-100 transition-opacity" />
+    </div>
+  );
+};
+
+interface PassportRowProps {
+  item: PassportData;
+  index: number;
+  selected: boolean;
+  issues?: ValidationIssue[];
+  validity?: ValidityResult;
+  duplicates?: DuplicateMatch[];
+  onToggle: (index: number, shiftKey: boolean) => void;
+  onUpdate: (id: string, field: keyof PassportData, value: string) => void;
+  onDelete: (id: string) => void;
+  onRescan?: (id: string, replacement?: File) => void;
+  onResolveDuplicate?: (id: string, otherId: string) => void;
+  // First and last column of the selected cell range, when it covers this row
+  rangeCols?: [number, number];
+  dateFormat: ExportDateFormat;
+}
+
+const PassportRow: React.FC<PassportRowProps> = ({ item, index, selected, issues = [], validity, duplicates, onToggle, onUpdate, onDelete, onRescan, onResolveDuplicate, rangeCols, dateFormat }) => {
+  const fieldIssues = (field: keyof PassportData) => issues.filter(i => i.field === field);
+
+  const issueClass = (field: keyof PassportData) => {
+    const found = fieldIssues(field);
+    if (found.length === 0) return '';
+    return found.some(i => i.severity === 'error') ? '!border-red-400 !bg-red-50 !text-red-700' : '!border-amber-300 !bg-amber-50';
+  };
+
+  const issueTitle = (field: keyof PassportData) => fieldIssues(field).map(i => i.message).join('\n') || undefined;
+
+  const inRange = (col: number) => !!rangeCols && col >= rangeCols[0] && col <= rangeCols[1];
+
+  return (
+      <tr style={{ height: ROW_HEIGHT }} className={`hover:bg-slate-50/80 transition-all group ${selected ? '!bg-blue-50/60' : ''} ${duplicates ? 'bg-amber-50/30' : ''} ${item.status === 'error' ? 'bg-red-50/20' : ''}`}>
+        <td className="pl-8 py-5 select-none">
+          <input
+            type="checkbox"
+            className="w-4 h-4 accent-blue-600 cursor-pointer align-middle"
+            checked={selected}
+            readOnly
+            onClick={(e) => onToggle(index, e.shiftKey)}
+          />
+        </td>
+        <td className="px-8 py-5 text-[12px] font-black text-slate-400 text-center bg-slate-50/30">{index + 1}</td>
+        <td className="px-4 py-5 text-center">
+          <span className={`px-3 py-1.5 rounded-lg text-[10px] font-black tracking-widest ${
+            item.passengerType === 'INFANT' ? 'bg-purple-100 text-purple-700' :
+            item.passengerType === 'CHILD' ? 'bg-blue-100 text-blue-700' :
+            'bg-slate-100 text-slate-700'
+          }`}>
+            {item.passengerType || 'ADULT'}
+          </span>
+        </td>
+        <td className="px-4 py-5">
+          <select 
+            data-row={index}
+            data-col={GRID_FIELDS.indexOf('title')}
+            className={`w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-bold text-slate-800 px-4 py-2.5 rounded-xl transition-all appearance-none ${issueClass('title')} ${inRange(GRID_FIELDS.indexOf('title')) ? RANGE_CLASS : ''}`}
+            title={issueTitle('title')}
+            value={item.title || ''}
+            onChange={(e) => onUpdate(item.id, 'title', e.target.value)}
+          >
+            <option value="MR">MR</option>
+            <option value="MRS">MRS</option>
+            <option value="MS">MS</option>
+            <option value="MSTR">MSTR</option>
+            <option value="MISS">MISS</option>
+          </select>
+        </td>
+        <td className="px-4 py-5">
+          <CellInput
+            row={index}
+            col={GRID_FIELDS.indexOf('firstName')}
+            inRange={inRange(GRID_FIELDS.indexOf('firstName'))}
+            className={`w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-bold text-slate-900 px-4 py-2.5 rounded-xl transition-all ${issueClass('firstName')}`}
+            title={issueTitle('firstName')}
+            value={item.firstName || ''}
+            uppercase
+            onCommit={value => onUpdate(item.id, 'firstName', value)}
+          />
+        </td>
+        <td className="px-4 py-5">
+          <CellInput
+            row={index}
+            col={GRID_FIELDS.indexOf('lastName')}
+            inRange={inRange(GRID_FIELDS.indexOf('lastName'))}
+            className={`w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-bold text-slate-900 px-4 py-2.5 rounded-xl transition-all ${issueClass('lastName')}`}
+            title={issueTitle('lastName')}
+            value={item.lastName || ''}
+            uppercase
+            onCommit={value => onUpdate(item.id, 'lastName', value)}
+          />
+        </td>
+        <td className="px-4 py-5 text-center">
+          <select 
+            data-row={index}
+            data-col={GRID_FIELDS.indexOf('gender')}
+            className={`bg-slate-100 hover:bg-slate-200 text-[11px] font-black text-slate-600 px-3.5 py-2 rounded-xl border-none focus:ring-4 focus:ring-blue-100 cursor-pointer appearance-none text-center transition-colors ${issueClass('gender')} ${inRange(GRID_FIELDS.indexOf('gender')) ? RANGE_CLASS : ''}`}
+            title={issueTitle('gender')}
+            value={item.gender || ''}
+            onChange={(e) => onUpdate(item.id, 'gender', e.target.value.toUpperCase())}
+          >
+            <option value="">N/A</option>
+            <option value="MALE">MALE</option>
+            <option value="FEMALE">FEMALE</option>
+          </select>
+        </td>
+        <td className="px-4 py-5">
+          <div className="relative">
+            <CellInput
+              row={index}
+              col={GRID_FIELDS.indexOf('passportNumber')}
+              inRange={inRange(GRID_FIELDS.indexOf('passportNumber'))}
+              className={`w-full border border-transparent hover:border-blue-300 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-black font-mono px-4 py-2.5 rounded-xl transition-all ${duplicates ? 'bg-amber-100 text-amber-800' : 'bg-blue-50/40 text-blue-700'} ${issueClass('passportNumber')}`}
+              title={issueTitle('passportNumber')}
+              value={item.passportNumber || ''}
+              uppercase
+              onCommit={value => onUpdate(item.id, 'passportNumber', value)}
+            />
+            {duplicates && (
+              <button
+                onClick={() => onResolveDuplicate?.(item.id, duplicates[0].id)}
+                className="absolute -top-2.5 -right-2.5 bg-amber-500 text-white rounded-full w-5 h-5 flex items-center justify-center text-[9px] font-bold border-2 border-white shadow-md animate-bounce"
+                title={`Potential duplicate: ${duplicates[0].reasons.join(', ')}. Click to resolve.`}
+              >!</button>
+            )}
+          </div>
+        </td>
+        <td className="px-4 py-5">
+          <CellInput
+            row={index}
+            col={GRID_FIELDS.indexOf('nationality')}
+            inRange={inRange(GRID_FIELDS.indexOf('nationality'))}
+            className={`w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-semibold text-slate-600 px-4 py-2.5 rounded-xl transition-all ${issueClass('nationality')}`}
+            title={issueTitle('nationality')}
+            value={item.nationality || ''}
+            uppercase
+            onCommit={value => onUpdate(item.id, 'nationality', value)}
+          />
+        </td>
+        <td className="px-4 py-5">
+          <DateCell
+            row={index}
+            col={GRID_FIELDS.indexOf('dateOfBirth')}
+            inRange={inRange(GRID_FIELDS.indexOf('dateOfBirth'))}
+            className={`w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-medium text-slate-500 px-4 py-2.5 rounded-xl transition-all text-center ${issueClass('dateOfBirth')}`}
+            title={issueTitle('dateOfBirth')}
+            value={item.dateOfBirth || ''}
+            format={dateFormat}
+            onCommit={value => onUpdate(item.id, 'dateOfBirth', value)}
+          />
+        </td>
+        <td className="px-4 py-5">
+          <DateCell
+            row={index}
+            col={GRID_FIELDS.indexOf('issueDate')}
+            inRange={inRange(GRID_FIELDS.indexOf('issueDate'))}
+            className={`w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-medium text-slate-500 px-4 py-2.5 rounded-xl transition-all text-center ${issueClass('issueDate')}`}
+            title={issueTitle('issueDate')}
+            value={item.issueDate || ''}
+            format={dateFormat}
+            onCommit={value => onUpdate(item.id, 'issueDate', value)}
+          />
+        </td>
+        <td className="px-4 py-5">
+          <DateCell
+            row={index}
+            col={GRID_FIELDS.indexOf('expiryDate')}
+            inRange={inRange(GRID_FIELDS.indexOf('expiryDate'))}
+            className={`w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-medium text-slate-500 px-4 py-2.5 rounded-xl transition-all text-center ${issueClass('expiryDate')}`}
+            title={issueTitle('expiryDate')}
+            value={item.expiryDate || ''}
+            format={dateFormat}
+            onCommit={value => onUpdate(item.id, 'expiryDate', value)}
+          />
+        </td>
+        <td className="px-4 py-5 text-center">
+          <ValidityBadge validity={validity} />
+        </td>
+        <td className="px-4 py-5 text-center">
+          {item.status === 'processing' ? (
+            <div className="flex justify-center">
+              <div className="w-6 h-6 border-3 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : item.status === 'error' ? (
+            <div className="flex flex-col items-center gap-1 group/err" title={item.errorMessage}>
+              <div className="bg-red-500 text-white w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-black shadow-sm animate-pulse cursor-help">!</div>
+              <span className="text-[8px] font-black text-red-500 uppercase tracking-tighter opacity-0 group-hover/err:opacity-100 transition-opacity">Scan Failed</span>
+            </div>
+          ) : item.mrzCheck && item.mrzCheck.status !== 'verified' ? (
+            <div className="flex flex-col items-center gap-1 cursor-help" title={item.mrzCheck.issues.map(i => i.message).join('\n')}>
+              <div className="bg-orange-500 text-white px-2 h-6 rounded-full flex items-center justify-center text-[9px] font-black tracking-widest shadow-sm">MRZ</div>
+              <span className="text-[8px] font-black text-orange-500 uppercase tracking-tighter">{item.mrzCheck.issues.length} Issue{item.mrzCheck.issues.length === 1 ? '' : 's'}</span>
+            </div>
+          ) : (
+            <div className="w-8 h-8 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto shadow-sm">
+              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="4"><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>
+            </div>
+          )}
+        </td>
+        <td className="px-8 py-5 text-right whitespace-nowrap">
+          {onRescan && item.status !== 'processing' && (
+            <>
+              <button 
+                onClick={() => onRescan(item.id)}
+                className="text-slate-300 hover:text-blue-600 transition-all p-3 hover:bg-blue-50 rounded-2xl active:scale-90"
+                title="Retry scan"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 12a9 9 0 1 1-3-6.7L21 8"/><path d="M21 3v5h-5"/></svg>
+              </button>
+              <label 
+                className="inline-block cursor-pointer text-slate-300 hover:text-blue-600 transition-all p-3 hover:bg-blue-50 rounded-2xl active:scale-90"
+                title="Re-scan with a replacement image"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/><path d="M17 8l-5-5-5 5"/><path d="M12 3v12"/></svg>
+                <input type="file" className="hidden" accept="image/*" onChange={e => { const f = e.target.files?.[0]; if (f) onRescan(item.id, f); e.target.value = ''; }} />
+              </label>
+            </>
+          )}
+          <button 
+            onClick={() => onDelete(item.id)}
+            className="text-slate-300 hover:text-red-500 transition-all p-3 hover:bg-red-50 rounded-2xl active:scale-90"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
+          </button>
+        </td>
+      </tr>
+  );
+};
+
+// The checks hand back the same issue, validity and duplicate objects for unchanged records, so props
+// compare by reference. Only the range is a fresh pair each render.
+const sameRange = (a?: [number, number], b?: [number, number]) => a === b || (!!a && !!b && a[0] === b[0] && a[1] === b[1]);
+
+export default memo(PassportRow, (prev, next) => (Object.keys(next) as (keyof PassportRowProps)[]).every(key =>
+  key === 'rangeCols' ? sameRange(prev.rangeCols, next.rangeCols) : prev[key] === next[key]
+));
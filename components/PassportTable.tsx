@@ -1,6 +1,10 @@
 
-import React from 'react';
-import { PassportData, SortConfig } from '../types';
+import React, { useCallback, useRef, useState } from 'react';
+import { DuplicateMatch, ExportDateFormat, PassportData, SortConfig, ValidationIssue, ValidityResult } from '../types';
+import PassportRow, { GRID_FIELDS, ROW_HEIGHT } from './PassportRow';
+import { useVirtualRows } from './useVirtualRows';
+import { ImportField, normaliseValue, parseClipboardTable, toClipboardTable } from '../services/importService';
+import { formatDate, isDateField } from '../services/dateService';
 
 interface PassportTableProps {
   data: PassportData[];
@@ -10,8 +14,71 @@ interface PassportTableProps {
   onUpdate: (id: string, field: keyof PassportData, value: string) => void;
   sortConfig?: SortConfig;
   onSort?: (key: keyof PassportData) => void;
+  onRescan?: (id: string, replacement?: File) => void;
+  issues?: Record<string, ValidationIssue[]>;
+  validity?: Record<string, ValidityResult>;
+  duplicates?: Record<string, DuplicateMatch[]>;
+  onResolveDuplicate?: (id: string, otherId: string) => void;
+  onBulkUpdate?: (ids: string[], field: keyof PassportData, value: string) => void;
+  onBulkDelete?: (ids: string[]) => void;
+  onBulkRescan?: (ids: string[]) => void;
+  onExportSelection?: (ids: string[]) => void;
+  onPasteCells?: (updates: { id: string; field: keyof PassportData; value: string }[]) => void;
+  dateFormat: ExportDateFormat;
 }
 
+interface GridCell {
+  row: number;
+  col: number;
+}
+
+const cellOf = (target: EventTarget | null): GridCell | null => {
+  if (!(target instanceof HTMLElement) || target.dataset.col === undefined) return null;
+  return { row: Number(target.dataset.row), col: Number(target.dataset.col) };
+};
+
+// Fields the bulk action bar can set; an empty option hands the field back to the passenger policy
+const BULK_FIELDS: { key: keyof PassportData; label: string; options?: string[] }[] = [
+  { key: 'nationality', label: 'Country' },
+  { key: 'passengerType', label: 'Type', options: ['ADULT', 'CHILD', 'INFANT'] },
+  { key: 'title', label: 'Title', options: ['MR', 'MRS', 'MS', 'MSTR', 'MISS'] },
+];
+
+const SortIcon: React.FC<{ active: boolean; order?: SortConfig['order'] }> = ({ active, order }) => {
+  if (!active) {
+    return (
+      <svg className="w-3 h-3 ml-1 opacity-20 group-hover:opacity-100" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3">
+        <path d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+      </svg>
+    );
+  }
+  return (
+    <svg className={`w-3 h-3 ml-1 transition-transform ${order === 'desc' ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="4">
+      <path d="M5 15l7-7 7 7" />
+    </svg>
+  );
+};
+
+interface HeaderCellProps {
+  field: keyof PassportData;
+  label: string;
+  width?: string;
+  sortConfig?: SortConfig;
+  onSort?: (key: keyof PassportData) => void;
+}
+
+const HeaderCell: React.FC<HeaderCellProps> = ({ field, label, width, sortConfig, onSort }) => (
+  <th 
+    className={`px-4 py-6 font-black uppercase tracking-[0.15em] text-[10px] cursor-pointer group select-none transition-colors hover:text-blue-600 ${width || ''}`}
+    onClick={() => onSort?.(field)}
+  >
+    <div className="flex items-center">
+      {label}
+      <SortIcon active={sortConfig?.key === field} order={sortConfig?.order} />
+    </div>
+  </th>
+);
+
 const PassportTable: React.FC<PassportTableProps> = ({ 
   data, 
   onDelete, 
@@ -19,175 +86,269 @@ const PassportTable: React.FC<PassportTableProps> = ({
   onExport, 
   onUpdate,
   sortConfig,
-  onSort
+  onSort,
+  onRescan,
+  issues = {},
+  validity = {},
+  duplicates = {},
+  onResolveDuplicate,
+  onBulkUpdate,
+  onBulkDelete,
+  onBulkRescan,
+  onExportSelection,
+  onPasteCells,
+  dateFormat
 }) => {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [bulkField, setBulkField] = useState<keyof PassportData>('nationality');
+  const [bulkValue, setBulkValue] = useState('');
+  const [range, setRange] = useState<{ anchor: GridCell; focus: GridCell } | null>(null);
+  const extending = useRef(false);
+  const bodyRef = useRef<HTMLTableSectionElement>(null);
+  const { start, end, before, after } = useVirtualRows(bodyRef, data.length, ROW_HEIGHT);
+
+  // Rows are memoised, so they get callbacks that never change and read the latest props from here
+  const latest = useRef({ data, anchorId, onUpdate, onDelete, onRescan, onResolveDuplicate });
+  latest.current = { data, anchorId, onUpdate, onDelete, onRescan, onResolveDuplicate };
+  const update = useCallback((id: string, field: keyof PassportData, value: string) => latest.current.onUpdate(id, field, value), []);
+  const remove = useCallback((id: string) => latest.current.onDelete(id), []);
+  const rescan = useCallback((id: string, replacement?: File) => latest.current.onRescan?.(id, replacement), []);
+  const resolveDuplicate = useCallback((id: string, otherId: string) => latest.current.onResolveDuplicate?.(id, otherId), []);
+
+  // Shift-click gives every row between the last clicked one and this one the same state
+  const toggleRow = useCallback((index: number, shiftKey: boolean) => {
+    const { data, anchorId } = latest.current;
+    const id = data[index].id;
+    const anchorIndex = anchorId ? data.findIndex(p => p.id === anchorId) : -1;
+    const range = shiftKey && anchorIndex >= 0
+      ? data.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+      : [data[index]];
+    setSelected(prev => {
+      const next = new Set(prev);
+      const select = !prev.has(id);
+      range.forEach(p => select ? next.add(p.id) : next.delete(p.id));
+      return next;
+    });
+    setAnchorId(id);
+  }, []);
+
   if (data.length === 0) return null;
 
-  const renderSortIcon = (key: keyof PassportData) => {
-    if (!sortConfig || sortConfig.key !== key) {
-      return (
-        <svg className="w-3 h-3 ml-1 opacity-20 group-hover:opacity-100" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="3">
-          <path d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
-        </svg>
-      );
+  // Only rows still shown count, so filtering or deleting drops them from the selection
+  const selectedIds = data.filter(p => selected.has(p.id)).map(p => p.id);
+  const allSelected = selectedIds.length === data.length;
+  const bulkOption = BULK_FIELDS.find(f => f.key === bulkField)!;
+
+  const toggleAll = () => setSelected(allSelected ? new Set() : new Set(data.map(p => p.id)));
+
+  const applyBulk = () => {
+    onBulkUpdate?.(selectedIds, bulkField, bulkOption.options ? bulkValue : bulkValue.trim().toUpperCase());
+    setBulkValue('');
+  };
+
+  const lastRow = data.length - 1;
+  const lastCol = GRID_FIELDS.length - 1;
+  const bounds = range && {
+    top: Math.min(range.anchor.row, range.focus.row),
+    bottom: Math.min(Math.max(range.anchor.row, range.focus.row), lastRow),
+    left: Math.min(range.anchor.col, range.focus.col),
+    right: Math.max(range.anchor.col, range.focus.col),
+  };
+  const multiCell = !!bounds && (bounds.top !== bounds.bottom || bounds.left !== bounds.right);
+
+  // The target row may be outside the rendered window; scroll it in and wait for it to mount
+  const focusCell = (row: number, col: number) => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const find = () => body.querySelector<HTMLElement>(`[data-row="${row}"][data-col="${col}"]`);
+    if (!find()) window.scrollTo({ top: window.scrollY + body.getBoundingClientRect().top + row * ROW_HEIGHT - window.innerHeight / 2 });
+    let tries = 0;
+    const attempt = () => {
+      const el = find();
+      if (el) el.focus();
+      else if (++tries < 10) requestAnimationFrame(attempt);
+    };
+    attempt();
+  };
+
+  // A focused cell starts a new range unless Shift is held, in which case it moves the range's far corner
+  const onCellFocus = (e: React.FocusEvent) => {
+    const cell = cellOf(e.target);
+    if (!cell) return;
+    setRange(prev => extending.current && prev ? { anchor: prev.anchor, focus: cell } : { anchor: cell, focus: cell });
+    extending.current = false;
+  };
+
+  const onGridKeyDown = (e: React.KeyboardEvent) => {
+    const cell = cellOf(e.target);
+    if (!cell || e.altKey || e.ctrlKey || e.metaKey) return;
+    if (e.key === 'Escape') {
+      setRange({ anchor: cell, focus: cell });
+      return;
     }
-    return (
-      <svg className={`w-3 h-3 ml-1 transition-transform ${sortConfig.order === 'desc' ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="4">
-        <path d="M5 15l7-7 7 7" />
-      </svg>
-    );
+    // While editing in place the caret keys belong to the input
+    const editing = (e.target as HTMLElement).dataset.editing !== undefined;
+    let { row, col } = cell;
+    switch (e.key) {
+      case 'ArrowUp': row--; break;
+      case 'ArrowDown': row++; break;
+      case 'ArrowLeft': if (editing) return; col--; break;
+      case 'ArrowRight': if (editing) return; col++; break;
+      case 'Enter': row += e.shiftKey ? -1 : 1; break;
+      case 'Tab':
+        col += e.shiftKey ? -1 : 1;
+        if (col > lastCol) { col = 0; row++; }
+        if (col < 0) { col = lastCol; row--; }
+        break;
+      default: return;
+    }
+    // Tab off either end of the grid leaves the table as usual
+    if (row < 0 || row > lastRow) {
+      if (e.key !== 'Tab') e.preventDefault();
+      return;
+    }
+    e.preventDefault();
+    col = Math.max(0, Math.min(col, lastCol));
+    extending.current = e.shiftKey && e.key.startsWith('Arrow');
+    focusCell(row, col);
   };
 
-  const HeaderCell = ({ field, label, width }: { field: keyof PassportData; label: string; width?: string }) => (
-    <th 
-      className={`px-4 py-6 font-black uppercase tracking-[0.15em] text-[10px] cursor-pointer group select-none transition-colors hover:text-blue-600 ${width || ''}`}
-      onClick={() => onSort?.(field)}
-    >
-      <div className="flex items-center">
-        {label}
-        {renderSortIcon(field)}
-      </div>
-    </th>
-  );
+  // A single cell copies and pastes as plain text; ranges and blocks go through the clipboard as TSV
+  const onGridCopy = (e: React.ClipboardEvent) => {
+    if (!bounds || !multiCell || (e.target as HTMLElement).dataset?.editing !== undefined) return;
+    e.preventDefault();
+    const fields = GRID_FIELDS.slice(bounds.left, bounds.right + 1);
+    const rows = data.slice(bounds.top, bounds.bottom + 1).map(p => fields.map(f => isDateField(f) ? formatDate(p[f], dateFormat) : String(p[f] || '')));
+    e.clipboardData.setData('text/plain', toClipboardTable(rows));
+  };
+
+  const onGridPaste = (e: React.ClipboardEvent) => {
+    const cell = cellOf(e.target);
+    if (!cell || !onPasteCells) return;
+    const rows = parseClipboardTable(e.clipboardData.getData('text/plain'));
+    if (rows.length < 2 && (rows[0]?.length || 0) < 2) return;
+    e.preventDefault();
+    // Like a spreadsheet, the block lands at the top-left of the selected range; rows past the end are dropped
+    const origin = bounds && multiCell ? { row: bounds.top, col: bounds.left } : cell;
+    const updates: { id: string; field: keyof PassportData; value: string }[] = [];
+    rows.forEach((values, r) => values.forEach((value, c) => {
+      const record = data[origin.row + r];
+      const field = GRID_FIELDS[origin.col + c];
+      if (record && field) updates.push({ id: record.id, field, value: normaliseValue(field as ImportField, value, dateFormat) });
+    }));
+    if (updates.length === 0) return;
+    onPasteCells(updates);
+    const width = Math.max(...rows.map(r => r.length));
+    setRange({ anchor: origin, focus: { row: Math.min(origin.row + rows.length - 1, lastRow), col: Math.min(origin.col + width - 1, lastCol) } });
+  };
+
+  const bulkButtonClass = "px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all active:scale-95 disabled:opacity-40";
 
   return (
     <div className="bg-white rounded-[2.5rem] border border-slate-200 shadow-2xl shadow-slate-200/50 overflow-hidden animate-in fade-in slide-in-from-bottom-8 duration-700">
+      {selectedIds.length > 0 && (
+        <div className="px-8 py-4 bg-blue-50/60 border-b border-blue-100 flex flex-wrap items-center gap-3">
+          <span className="text-xs font-black text-blue-700 uppercase tracking-widest">{selectedIds.length} Selected</span>
+          <button onClick={() => setSelected(new Set())} className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-600">Clear</button>
+          <div className="flex-1"></div>
+          {onBulkUpdate && (
+            <div className="flex items-center gap-2">
+              <select
+                className="bg-white border border-slate-200 text-xs font-bold text-slate-700 px-3 py-2.5 rounded-xl outline-none"
+                value={bulkField}
+                onChange={(e) => { setBulkField(e.target.value as keyof PassportData); setBulkValue(''); }}
+              >
+                {BULK_FIELDS.map(f => <option key={f.key} value={f.key}>Set {f.label}</option>)}
+              </select>
+              {bulkOption.options ? (
+                <select
+                  className="bg-white border border-slate-200 text-xs font-bold text-slate-700 px-3 py-2.5 rounded-xl outline-none"
+                  value={bulkValue}
+                  onChange={(e) => setBulkValue(e.target.value)}
+                >
+                  <option value="">Auto (policy)</option>
+                  {bulkOption.options.map(o => <option key={o} value={o}>{o}</option>)}
+                </select>
+              ) : (
+                <input
+                  className="w-36 bg-white border border-slate-200 text-xs font-bold text-slate-700 px-3 py-2.5 rounded-xl outline-none focus:ring-2 focus:ring-blue-500/20"
+                  value={bulkValue}
+                  placeholder="INDIA"
+                  onChange={(e) => setBulkValue(e.target.value.toUpperCase())}
+                  onKeyDown={(e) => e.key === 'Enter' && bulkValue.trim() && applyBulk()}
+                />
+              )}
+              <button onClick={applyBulk} disabled={!bulkOption.options && !bulkValue.trim()} className={`${bulkButtonClass} bg-blue-600 text-white`}>Apply</button>
+            </div>
+          )}
+          {onBulkRescan && <button onClick={() => onBulkRescan(selectedIds)} className={`${bulkButtonClass} bg-white text-slate-600 border border-slate-200`}>Re-scan</button>}
+          {onExportSelection && <button onClick={() => onExportSelection(selectedIds)} className={`${bulkButtonClass} bg-slate-900 text-white`}>Export</button>}
+          {onBulkDelete && <button onClick={() => onBulkDelete(selectedIds)} className={`${bulkButtonClass} bg-red-50 text-red-600`}>Delete</button>}
+        </div>
+      )}
       <div className="overflow-x-auto custom-scrollbar">
         <table className="w-full text-left border-collapse min-w-[1500px]">
           <thead>
             <tr className="bg-slate-50 text-slate-400 border-b border-slate-200/60">
+              <th className="pl-8 py-6 w-12">
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 accent-blue-600 cursor-pointer align-middle"
+                  title="Select all shown"
+                  checked={allSelected}
+                  ref={el => { if (el) el.indeterminate = selectedIds.length > 0 && !allSelected; }}
+                  onChange={toggleAll}
+                />
+              </th>
               <th className="px-8 py-6 w-20 text-center text-[10px] font-black uppercase tracking-widest">No.</th>
-              <HeaderCell field="passengerType" label="Type" width="w-28" />
-              <HeaderCell field="title" label="Title" width="w-28" />
-              <HeaderCell field="firstName" label="First Name" />
-              <HeaderCell field="lastName" label="Last Name" />
-              <HeaderCell field="gender" label="Gender" width="w-32" />
-              <HeaderCell field="passportNumber" label="Passport Number" width="w-44" />
-              <HeaderCell field="nationality" label="Country" width="w-48" />
-              <HeaderCell field="dateOfBirth" label="Date of Birth" width="w-36" />
-              <HeaderCell field="issueDate" label="Date of Issue" width="w-36" />
-              <HeaderCell field="expiryDate" label="Date of Expire" width="w-36" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="passengerType" label="Type" width="w-28" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="title" label="Title" width="w-28" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="firstName" label="First Name" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="lastName" label="Last Name" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="gender" label="Gender" width="w-32" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="passportNumber" label="Passport Number" width="w-44" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="nationality" label="Country" width="w-48" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="dateOfBirth" label="Date of Birth" width="w-36" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="issueDate" label="Date of Issue" width="w-36" />
+              <HeaderCell sortConfig={sortConfig} onSort={onSort} field="expiryDate" label="Date of Expire" width="w-36" />
+              <th className="px-4 py-6 w-28 text-center text-[10px] font-black uppercase tracking-widest">Validity</th>
               <th className="px-4 py-6 w-28 text-center text-[10px] font-black uppercase tracking-widest">Status</th>
-              <th className="px-8 py-6 w-20 text-right text-[10px] font-black uppercase tracking-widest">Action</th>
+              <th className="px-8 py-6 w-40 text-right text-[10px] font-black uppercase tracking-widest">Action</th>
             </tr>
           </thead>
-          <tbody className="divide-y divide-slate-100">
-            {data.map((item, index) => (
-              <tr key={item.id} className={`hover:bg-slate-50/80 transition-all group ${item.isDuplicate ? 'bg-amber-50/30' : ''} ${item.status === 'error' ? 'bg-red-50/20' : ''}`}>
-                <td className="px-8 py-5 text-[12px] font-black text-slate-400 text-center bg-slate-50/30">{index + 1}</td>
-                <td className="px-4 py-5 text-center">
-                  <span className={`px-3 py-1.5 rounded-lg text-[10px] font-black tracking-widest ${
-                    item.passengerType === 'INFANT' ? 'bg-purple-100 text-purple-700' :
-                    item.passengerType === 'CHILD' ? 'bg-blue-100 text-blue-700' :
-                    'bg-slate-100 text-slate-700'
-                  }`}>
-                    {item.passengerType || 'ADULT'}
-                  </span>
-                </td>
-                <td className="px-4 py-5">
-                  <select 
-                    className="w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-bold text-slate-800 px-4 py-2.5 rounded-xl transition-all appearance-none"
-                    value={item.title || ''}
-                    onChange={(e) => onUpdate(item.id, 'title', e.target.value)}
-                  >
-                    <option value="MR">MR</option>
-                    <option value="MRS">MRS</option>
-                    <option value="MS">MS</option>
-                    <option value="MSTR">MSTR</option>
-                    <option value="MISS">MISS</option>
-                  </select>
-                </td>
-                <td className="px-4 py-5">
-                  <input 
-                    className="w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-bold text-slate-900 px-4 py-2.5 rounded-xl transition-all"
-                    value={item.firstName}
-                    onChange={(e) => onUpdate(item.id, 'firstName', e.target.value.toUpperCase())}
-                  />
-                </td>
-                <td className="px-4 py-5">
-                  <input 
-                    className="w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-bold text-slate-900 px-4 py-2.5 rounded-xl transition-all"
-                    value={item.lastName}
-                    onChange={(e) => onUpdate(item.id, 'lastName', e.target.value.toUpperCase())}
-                  />
-                </td>
-                <td className="px-4 py-5 text-center">
-                  <select 
-                    className="bg-slate-100 hover:bg-slate-200 text-[11px] font-black text-slate-600 px-3.5 py-2 rounded-xl border-none focus:ring-4 focus:ring-blue-100 cursor-pointer appearance-none text-center transition-colors"
-                    value={item.gender || ''}
-                    onChange={(e) => onUpdate(item.id, 'gender', e.target.value.toUpperCase())}
-                  >
-                    <option value="">N/A</option>
-                    <option value="MALE">MALE</option>
-                    <option value="FEMALE">FEMALE</option>
-                  </select>
-                </td>
-                <td className="px-4 py-5">
-                  <div className="relative">
-                    <input 
-                      className={`w-full border border-transparent hover:border-blue-300 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-black font-mono px-4 py-2.5 rounded-xl transition-all ${item.isDuplicate ? 'bg-amber-100 text-amber-800' : 'bg-blue-50/40 text-blue-700'}`}
-                      value={item.passportNumber}
-                      onChange={(e) => onUpdate(item.id, 'passportNumber', e.target.value.toUpperCase())}
-                    />
-                    {item.isDuplicate && (
-                      <div className="absolute -top-2.5 -right-2.5 bg-amber-500 text-white rounded-full w-5 h-5 flex items-center justify-center text-[9px] font-bold border-2 border-white shadow-md animate-bounce" title="Potential Duplicate">!</div>
-                    )}
-                  </div>
-                </td>
-                <td className="px-4 py-5">
-                  <input 
-                    className="w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-semibold text-slate-600 px-4 py-2.5 rounded-xl transition-all"
-                    value={item.nationality || ''}
-                    onChange={(e) => onUpdate(item.id, 'nationality', e.target.value.toUpperCase())}
-                  />
-                </td>
-                <td className="px-4 py-5">
-                  <input 
-                    className="w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-medium text-slate-500 px-4 py-2.5 rounded-xl transition-all text-center"
-                    value={item.dateOfBirth || ''}
-                    onChange={(e) => onUpdate(item.id, 'dateOfBirth', e.target.value)}
-                  />
-                </td>
-                <td className="px-4 py-5">
-                  <input 
-                    className="w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-medium text-slate-500 px-4 py-2.5 rounded-xl transition-all text-center"
-                    value={item.issueDate || ''}
-                    onChange={(e) => onUpdate(item.id, 'issueDate', e.target.value)}
-                  />
-                </td>
-                <td className="px-4 py-5">
-                  <input 
-                    className="w-full bg-white/50 border border-transparent hover:border-slate-200 focus:border-blue-500 focus:bg-white focus:ring-8 focus:ring-blue-50 text-[13px] font-medium text-slate-500 px-4 py-2.5 rounded-xl transition-all text-center"
-                    value={item.expiryDate || ''}
-                    onChange={(e) => onUpdate(item.id, 'expiryDate', e.target.value)}
-                  />
-                </td>
-                <td className="px-4 py-5 text-center">
-                  {item.status === 'processing' ? (
-                    <div className="flex justify-center">
-                      <div className="w-6 h-6 border-3 border-blue-500 border-t-transparent rounded-full animate-spin"></div>
-                    </div>
-                  ) : item.status === 'error' ? (
-                    <div className="flex flex-col items-center gap-1 group/err" title={item.errorMessage}>
-                      <div className="bg-red-500 text-white w-6 h-6 rounded-full flex items-center justify-center text-[10px] font-black shadow-sm animate-pulse cursor-help">!</div>
-                      <span className="text-[8px] font-black text-red-500 uppercase tracking-tighter opacity-0 group-hover/err:opacity-100 transition-opacity">Scan Failed</span>
-                    </div>
-                  ) : (
-                    <div className="w-8 h-8 bg-green-100 text-green-600 rounded-full flex items-center justify-center mx-auto shadow-sm">
-                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth="4"><path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" /></svg>
-                    </div>
-                  )}
-                </td>
-                <td className="px-8 py-5 text-right">
-                  <button 
-                    onClick={() => onDelete(item.id)}
-                    className="text-slate-300 hover:text-red-500 transition-all p-3 hover:bg-red-50 rounded-2xl active:scale-90"
-                  >
-                    <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5" strokeLinecap="round" strokeLinejoin="round"><path d="M3 6h18"/><path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"/><path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"/></svg>
-                  </button>
-                </td>
-              </tr>
-            ))}
+          <tbody
+            ref={bodyRef}
+            className="divide-y divide-slate-100"
+            onFocus={onCellFocus}
+            onMouseDown={(e) => { extending.current = e.shiftKey && !!cellOf(e.target); }}
+            onKeyDown={onGridKeyDown}
+            onCopy={onGridCopy}
+            onPaste={onGridPaste}
+          >
+            {before > 0 && <tr style={{ height: before }} aria-hidden="true"></tr>}
+            {data.slice(start, end).map((item, offset) => {
+              const index = start + offset;
+              return (
+              <PassportRow
+                key={item.id}
+                item={item}
+                index={index}
+                selected={selected.has(item.id)}
+                issues={issues[item.id]}
+                validity={validity[item.id]}
+                duplicates={duplicates[item.id]}
+                onToggle={toggleRow}
+                onUpdate={update}
+                onDelete={remove}
+                onRescan={onRescan ? rescan : undefined}
+                onResolveDuplicate={onResolveDuplicate ? resolveDuplicate : undefined}
+                rangeCols={multiCell && index >= bounds!.top && index <= bounds!.bottom ? [bounds!.left, bounds!.right] : undefined}
+                dateFormat={dateFormat}
+              />
+              );
+            })}
+            {after > 0 && <tr style={{ height: after }} aria-hidden="true"></tr>}
           </tbody>
         </table>
       </div>
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ExportDateFormat, PassportData } from '../types';
+import { formatDate, isDateField } from '../services/dateService';
+
+interface RescanReviewProps {
+  before: PassportData;
+  after: Partial<PassportData>;
+  onAccept: () => void;
+  onReject: () => void;
+  dateFormat: ExportDateFormat;
+}
+
+const COMPARED_FIELDS: { key: keyof PassportData; label: string }[] = [
+  { key: 'passengerType', label: 'Type' },
+  { key: 'title', label: 'Title' },
+  { key: 'firstName', label: 'First Name' },
+  { key: 'lastName', label: 'Last Name' },
+  { key: 'passportNumber', label: 'Passport No.' },
+  { key: 'nationality', label: 'Country' },
+  { key: 'gender', label: 'Gender' },
+  { key: 'dateOfBirth', label: 'Date of Birth' },
+  { key: 'issueDate', label: 'Date of Issue' },
+  { key: 'expiryDate', label: 'Date of Expiry' },
+];
+
+const RescanReview: React.FC<RescanReviewProps> = ({ before, after, onAccept, onReject, dateFormat }) => {
+  const show = (key: keyof PassportData, value: unknown) => isDateField(key) ? formatDate(value as string, dateFormat) : String(value ?? '');
+  const rows = COMPARED_FIELDS.map(field => {
+    const oldValue = show(field.key, before[field.key]);
+    const newValue = show(field.key, after[field.key]);
+    return { ...field, oldValue, newValue, changed: oldValue.trim().toUpperCase() !== newValue.trim().toUpperCase() };
+  });
+  const changedCount = rows.filter(r => r.changed).length;
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-slate-900/40 backdrop-blur-sm flex items-end md:items-center justify-center p-0 md:p-6 animate-in fade-in duration-200">
+      <div className="bg-white w-full max-w-2xl rounded-t-[2.5rem] md:rounded-[2.5rem] shadow-2xl flex flex-col max-h-[90vh]">
+        <div className="px-8 py-6 border-b border-slate-100">
+          <h3 className="font-extrabold text-lg text-slate-800">Review Re-scan</h3>
+          <p className="text-xs text-slate-500 font-medium mt-1">
+            {changedCount === 0 ? 'The new scan matches the current values.' : `${changedCount} field${changedCount === 1 ? '' : 's'} changed. Accept to replace the current values.`}
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-8 py-4 custom-scrollbar">
+          <table className="w-full text-left">
+            <thead>
+              <tr className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="py-3 pr-4">Field</th>
+                <th className="py-3 pr-4">Current</th>
+                <th className="py-3">New Scan</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map(row => (
+                <tr key={row.key} className={row.changed ? 'bg-amber-50/60' : ''}>
+                  <td className="py-3 pr-4 text-[11px] font-black text-slate-400 uppercase tracking-wider">{row.label}</td>
+                  <td className={`py-3 pr-4 text-sm font-bold ${row.changed ? 'text-red-500 line-through decoration-2' : 'text-slate-700'}`}>{row.oldValue || '—'}</td>
+                  <td className={`py-3 text-sm font-bold ${row.changed ? 'text-green-600' : 'text-slate-700'}`}>{row.newValue || '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="px-8 py-6 border-t border-slate-100 flex gap-3 safe-bottom">
+          <button onClick={onReject} className="flex-1 py-4 text-slate-500 font-bold text-sm bg-slate-100 rounded-2xl active:bg-slate-200 transition-colors">
+            Keep Current
+          </button>
+          <button onClick={onAccept} className="flex-1 py-4 text-white font-bold text-sm bg-blue-600 rounded-2xl active:scale-95 transition-all">
+            Accept New Values
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RescanReview;
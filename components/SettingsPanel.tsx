@@ -0,0 +1,412 @@
+import React, { useState } from 'react';
+import { AgeBands, ExportDateFormat, ExtractionSettings, PassengerPolicy, PreprocessSettings, ValiditySettings } from '../types';
+import { PROVIDER_OPTIONS } from '../services/extractionProvider';
+import { DEFAULT_GEMINI_MODEL, DEFAULT_GEMINI_PROMPT } from '../services/geminiService';
+import { DEFAULT_PREPROCESS_SETTINGS } from '../services/preprocessService';
+import { DISPLAY_DATE_FORMATS, formatDate } from '../services/dateService';
+
+interface SettingsPanelProps {
+  settings: ExtractionSettings;
+  onChange: (settings: ExtractionSettings) => void;
+  persistImages: boolean;
+  onPersistImagesChange: (enabled: boolean) => void;
+  validitySettings: ValiditySettings;
+  onValiditySettingsChange: (settings: ValiditySettings) => void;
+  passengerPolicy: PassengerPolicy;
+  onPassengerPolicyChange: (policy: PassengerPolicy) => void;
+  preprocessSettings: PreprocessSettings;
+  onPreprocessSettingsChange: (settings: PreprocessSettings) => void;
+  dateFormat: ExportDateFormat;
+  onDateFormatChange: (format: ExportDateFormat) => void;
+  onClose: () => void;
+  onSubmitMrz: (text: string) => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, persistImages, onPersistImagesChange, validitySettings, onValiditySettingsChange, passengerPolicy, onPassengerPolicyChange, preprocessSettings, onPreprocessSettingsChange, dateFormat, onDateFormatChange, onClose, onSubmitMrz }) => {
+  const [mrzText, setMrzText] = useState('');
+  const [newDestination, setNewDestination] = useState('');
+  const [newAirline, setNewAirline] = useState('');
+
+  const setDestinationMonths = (destination: string, months: number | null) => {
+    const destinationMonths = { ...validitySettings.destinationMonths };
+    if (months === null) delete destinationMonths[destination];
+    else destinationMonths[destination] = months;
+    onValiditySettingsChange({ ...validitySettings, destinationMonths });
+  };
+
+  const addDestination = () => {
+    const destination = newDestination.trim().toUpperCase();
+    if (!destination) return;
+    setDestinationMonths(destination, validitySettings.defaultMonths);
+    setNewDestination('');
+  };
+
+  const inputClass = "w-full bg-slate-50 border border-slate-100 px-4 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all";
+  // Same look as inputClass but sized by the caller, for the small inline rule inputs
+  const compactInputClass = "bg-slate-50 border border-slate-100 px-3 py-3 rounded-xl text-sm font-bold text-slate-800 focus:ring-2 focus:ring-blue-500/20 focus:bg-white outline-none transition-all";
+  const labelClass = "block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2";
+
+  const updateAirlineBands = (index: number, changes: Partial<AgeBands> | null) => {
+    const airlineBands = changes === null
+      ? passengerPolicy.airlineBands.filter((_, i) => i !== index)
+      : passengerPolicy.airlineBands.map((b, i) => i === index ? { ...b, ...changes } : b);
+    onPassengerPolicyChange({ ...passengerPolicy, airlineBands });
+  };
+
+  const addAirline = () => {
+    const airline = newAirline.trim().toUpperCase();
+    if (!airline || passengerPolicy.airlineBands.some(b => b.airline === airline)) return;
+    onPassengerPolicyChange({ ...passengerPolicy, airlineBands: [...passengerPolicy.airlineBands, { airline, ...passengerPolicy.defaultBands }] });
+    setNewAirline('');
+  };
+
+  const updatePreprocess = (changes: Partial<PreprocessSettings>) => onPreprocessSettingsChange({ ...preprocessSettings, ...changes });
+
+  const renderToggle = (on: boolean, title: string, description: string, onToggle: () => void) => (
+    <button onClick={onToggle} className="w-full flex items-center justify-between gap-4 p-4 rounded-2xl border border-slate-100 bg-slate-50 text-left">
+      <span>
+        <span className="block text-sm font-black text-slate-800">{title}</span>
+        <span className="block text-xs text-slate-500 mt-1">{description}</span>
+      </span>
+      <span className={`w-12 h-7 rounded-full p-1 transition-colors shrink-0 ${on ? 'bg-blue-600' : 'bg-slate-200'}`}>
+        <span className={`block w-5 h-5 bg-white rounded-full shadow transition-transform ${on ? 'translate-x-5' : ''}`}></span>
+      </span>
+    </button>
+  );
+
+  const toAge = (value: string) => Math.max(0, parseInt(value, 10) || 0);
+
+  const renderBands = (bands: AgeBands, onBandsChange: (changes: Partial<AgeBands>) => void) => (
+    <>
+      <input type="number" min={0} max={18} className={`${compactInputClass} w-20 text-center`} value={bands.infantUnder} onChange={(e) => onBandsChange({ infantUnder: toAge(e.target.value) })} title="Infant under (years)" />
+      <input type="number" min={0} max={18} className={`${compactInputClass} w-20 text-center`} value={bands.childUnder} onChange={(e) => onBandsChange({ childUnder: toAge(e.target.value) })} title="Child under (years)" />
+      <select className={`${compactInputClass} w-32 appearance-none`} value={bands.ageOn} onChange={(e) => onBandsChange({ ageOn: e.target.value as AgeBands['ageOn'] })}>
+        <option value="departure">Departure</option>
+        <option value="return">Return</option>
+      </select>
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-white flex flex-col animate-in slide-in-from-bottom duration-300">
+      <div className="px-6 py-5 border-b border-slate-100 flex items-center justify-between sticky top-0 bg-white z-10">
+        <button onClick={onClose} className="p-2 -ml-2 text-slate-400">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+        <h3 className="font-bold text-slate-800">Setup</h3>
+        <button onClick={onClose} className="text-blue-600 font-bold text-sm uppercase">Done</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto px-6 py-6 custom-scrollbar">
+        <div className="max-w-2xl mx-auto space-y-8">
+          <div>
+            <label className={labelClass}>Extraction Provider</label>
+            <div className="space-y-3">
+              {PROVIDER_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => onChange({ ...settings, provider: option.id })}
+                  className={`w-full text-left p-4 rounded-2xl border transition-all ${settings.provider === option.id ? 'border-blue-500 bg-blue-50/50 ring-2 ring-blue-500/20' : 'border-slate-100 bg-slate-50 hover:border-blue-200'}`}
+                >
+                  <span className="block text-sm font-black text-slate-800">{option.label}</span>
+                  <span className="block text-xs text-slate-500 mt-1">{option.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {settings.provider === 'gemini' && (
+            <div className="space-y-6">
+              <div>
+                <label className={labelClass}>Model</label>
+                <input
+                  className={inputClass}
+                  value={settings.geminiModel}
+                  onChange={(e) => onChange({ ...settings, geminiModel: e.target.value.trim() })}
+                  placeholder={DEFAULT_GEMINI_MODEL}
+                />
+              </div>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Prompt</label>
+                  <button
+                    onClick={() => onChange({ ...settings, geminiModel: DEFAULT_GEMINI_MODEL, geminiPrompt: DEFAULT_GEMINI_PROMPT })}
+                    className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-blue-600"
+                  >
+                    Reset to Default
+                  </button>
+                </div>
+                <textarea
+                  className={`${inputClass} font-mono text-xs font-medium h-48`}
+                  value={settings.geminiPrompt}
+                  onChange={(e) => onChange({ ...settings, geminiPrompt: e.target.value })}
+                />
+              </div>
+            </div>
+          )}
+
+          {settings.provider === 'mrz-text' && (
+            <div>
+              <label className={labelClass}>Paste MRZ Lines</label>
+              <textarea
+                className={`${inputClass} font-mono text-xs h-32 uppercase`}
+                value={mrzText}
+                onChange={(e) => setMrzText(e.target.value)}
+                placeholder={'P<INDPULIKKUTH<<FAISAL<<<<<<<<<<<<<<<<<<<<<<\nU9628867<2IND8501123M3003105<<<<<<<<<<<<<<<0'}
+              />
+              <button
+                onClick={() => { onSubmitMrz(mrzText); setMrzText(''); }}
+                disabled={!mrzText.trim()}
+                className="w-full mt-4 py-4 bg-blue-600 text-white font-black text-sm uppercase tracking-widest rounded-2xl disabled:opacity-40 active:scale-95 transition-all"
+              >
+                Add to Manifest
+              </button>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Parallel Scans</label>
+              <select
+                className={`${inputClass} appearance-none`}
+                value={settings.concurrency}
+                onChange={(e) => onChange({ ...settings, concurrency: parseInt(e.target.value, 10) })}
+              >
+                {[1, 2, 3, 4, 5, 6].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Retries on Busy / Offline</label>
+              <select
+                className={`${inputClass} appearance-none`}
+                value={settings.maxRetries}
+                onChange={(e) => onChange({ ...settings, maxRetries: parseInt(e.target.value, 10) })}
+              >
+                {[0, 1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Date Display</label>
+            <select
+              className={`${inputClass} appearance-none`}
+              value={dateFormat}
+              onChange={(e) => onDateFormatChange(e.target.value as ExportDateFormat)}
+            >
+              {DISPLAY_DATE_FORMATS.map(f => <option key={f} value={f}>{f} ({formatDate('1985-01-12', f)})</option>)}
+            </select>
+            <p className="text-xs text-slate-500 mt-2">How dates appear in the table and editor. Dates can be typed in any of these forms; exports use the template's own format.</p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Image Preprocessing</label>
+              <button
+                onClick={() => onPreprocessSettingsChange(DEFAULT_PREPROCESS_SETTINGS)}
+                className="text-[10px] font-black text-slate-400 uppercase tracking-widest hover:text-blue-600"
+              >
+                Reset to Default
+              </button>
+            </div>
+            <div className="space-y-3">
+              {renderToggle(preprocessSettings.enabled, 'Prepare photos before scanning', 'Straightens, shrinks and checks each photo first. Blurry or glary photos are rejected straight away with the reason.', () => updatePreprocess({ enabled: !preprocessSettings.enabled }))}
+              {preprocessSettings.enabled && (
+                <>
+                  {renderToggle(preprocessSettings.autoCrop, 'Crop to the passport', 'Trims plain background around the document.', () => updatePreprocess({ autoCrop: !preprocessSettings.autoCrop }))}
+                  <div className="grid grid-cols-2 gap-4 pt-1">
+                    <div>
+                      <label className={labelClass}>Longest Side</label>
+                      <select
+                        className={`${inputClass} appearance-none`}
+                        value={preprocessSettings.maxDimension}
+                        onChange={(e) => updatePreprocess({ maxDimension: parseInt(e.target.value, 10) })}
+                      >
+                        {[1200, 1600, 2000, 2400, 3200].map(n => <option key={n} value={n}>{n} px</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className={labelClass}>JPEG Quality</label>
+                      <select
+                        className={`${inputClass} appearance-none`}
+                        value={preprocessSettings.jpegQuality}
+                        onChange={(e) => updatePreprocess({ jpegQuality: parseFloat(e.target.value) })}
+                      >
+                        {[0.6, 0.7, 0.8, 0.85, 0.9, 0.95].map(q => <option key={q} value={q}>{Math.round(q * 100)}%</option>)}
+                      </select>
+                    </div>
+                    <div>
+                      <label className={labelClass}>Minimum Sharpness</label>
+                      <input
+                        type="number"
+                        min={0}
+                        className={inputClass}
+                        value={preprocessSettings.minSharpness}
+                        onChange={(e) => updatePreprocess({ minSharpness: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Maximum Glare (%)</label>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        className={inputClass}
+                        value={Math.round(preprocessSettings.maxGlare * 100)}
+                        onChange={(e) => updatePreprocess({ maxGlare: Math.min(100, Math.max(0, parseInt(e.target.value, 10) || 0)) / 100 })}
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-slate-500">Set sharpness to 0 and glare to 100% to keep every photo. Each scan's scores are shown under its image.</p>
+                </>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Passport Validity (Months Required After Travel)</label>
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <span className="flex-1 text-sm font-bold text-slate-700">All other destinations</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={24}
+                  className={`${compactInputClass} w-24 text-center`}
+                  value={validitySettings.defaultMonths}
+                  onChange={(e) => onValiditySettingsChange({ ...validitySettings, defaultMonths: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                />
+                <span className="w-8"></span>
+              </div>
+              {Object.entries(validitySettings.destinationMonths).map(([destination, months]) => (
+                <div key={destination} className="flex items-center gap-3">
+                  <span className="flex-1 text-sm font-bold text-slate-700 truncate">{destination}</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={24}
+                    className={`${compactInputClass} w-24 text-center`}
+                    value={months}
+                    onChange={(e) => setDestinationMonths(destination, Math.max(0, parseInt(e.target.value, 10) || 0))}
+                  />
+                  <button onClick={() => setDestinationMonths(destination, null)} className="w-8 text-slate-300 hover:text-red-500 font-black" title="Remove">×</button>
+                </div>
+              ))}
+              <div className="flex items-center gap-3 pt-2">
+                <input
+                  className={`${inputClass} flex-1`}
+                  value={newDestination}
+                  onChange={(e) => setNewDestination(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addDestination()}
+                  placeholder="Add destination (e.g. SAUDI ARABIA)"
+                />
+                <button onClick={addDestination} className="px-4 py-3 rounded-xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest">Add</button>
+              </div>
+            </div>
+            <button
+              onClick={() => onValiditySettingsChange({ ...validitySettings, includeInExport: !validitySettings.includeInExport })}
+              className="w-full flex items-center justify-between gap-4 p-4 mt-4 rounded-2xl border border-slate-100 bg-slate-50 text-left"
+            >
+              <span>
+                <span className="block text-sm font-black text-slate-800">Include validity column in Excel export</span>
+                <span className="block text-xs text-slate-500 mt-1">Adds a PASSPORT VALIDITY column (Valid / Expiring / Expired).</span>
+              </span>
+              <span className={`w-12 h-7 rounded-full p-1 transition-colors shrink-0 ${validitySettings.includeInExport ? 'bg-blue-600' : 'bg-slate-200'}`}>
+                <span className={`block w-5 h-5 bg-white rounded-full shadow transition-transform ${validitySettings.includeInExport ? 'translate-x-5' : ''}`}></span>
+              </span>
+            </button>
+          </div>
+
+          <div>
+            <label className={labelClass}>Passenger Types (Infant Under / Child Under / Age On)</label>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="flex-1 text-sm font-bold text-slate-700">All other airlines</span>
+                {renderBands(passengerPolicy.defaultBands, changes => onPassengerPolicyChange({ ...passengerPolicy, defaultBands: { ...passengerPolicy.defaultBands, ...changes } }))}
+                <span className="w-8"></span>
+              </div>
+              {passengerPolicy.airlineBands.map((bands, index) => (
+                <div key={bands.airline} className="flex items-center gap-2">
+                  <span className="flex-1 text-sm font-bold text-slate-700 truncate">{bands.airline}</span>
+                  {renderBands(bands, changes => updateAirlineBands(index, changes))}
+                  <button onClick={() => updateAirlineBands(index, null)} className="w-8 text-slate-300 hover:text-red-500 font-black" title="Remove">×</button>
+                </div>
+              ))}
+              <div className="flex items-center gap-3 pt-2">
+                <input
+                  className={`${inputClass} flex-1`}
+                  value={newAirline}
+                  onChange={(e) => setNewAirline(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && addAirline()}
+                  placeholder="Add airline (e.g. SAUDIA)"
+                />
+                <button onClick={addAirline} className="px-4 py-3 rounded-xl bg-slate-900 text-white text-[10px] font-black uppercase tracking-widest">Add</button>
+              </div>
+            </div>
+            <p className="text-xs text-slate-500 mt-3">Ages are worked out on the manifest's departure or return date. Types and titles you pick by hand are never changed.</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className={labelClass}>Adult Female Title</label>
+              <select
+                className={`${inputClass} appearance-none`}
+                value={passengerPolicy.adultFemaleTitle}
+                onChange={(e) => onPassengerPolicyChange({ ...passengerPolicy, adultFemaleTitle: e.target.value as PassengerPolicy['adultFemaleTitle'] })}
+              >
+                <option value="MS">Always MS</option>
+                <option value="MRS">Always MRS</option>
+                <option value="BY_AGE">MRS from age…</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>MRS From Age</label>
+              <input
+                type="number"
+                min={0}
+                max={120}
+                disabled={passengerPolicy.adultFemaleTitle !== 'BY_AGE'}
+                className={`${inputClass} disabled:opacity-40`}
+                value={passengerPolicy.mrsFromAge}
+                onChange={(e) => onPassengerPolicyChange({ ...passengerPolicy, mrsFromAge: toAge(e.target.value) })}
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={() => onPassengerPolicyChange({ ...passengerPolicy, minorTitles: !passengerPolicy.minorTitles })}
+            className="w-full flex items-center justify-between gap-4 p-4 rounded-2xl border border-slate-100 bg-slate-50 text-left"
+          >
+            <span>
+              <span className="block text-sm font-black text-slate-800">Use MSTR / MISS for children and infants</span>
+              <span className="block text-xs text-slate-500 mt-1">When off, children get MR / MS like adults.</span>
+            </span>
+            <span className={`w-12 h-7 rounded-full p-1 transition-colors shrink-0 ${passengerPolicy.minorTitles ? 'bg-blue-600' : 'bg-slate-200'}`}>
+              <span className={`block w-5 h-5 bg-white rounded-full shadow transition-transform ${passengerPolicy.minorTitles ? 'translate-x-5' : ''}`}></span>
+            </span>
+          </button>
+
+          <div>
+            <label className={labelClass}>Storage</label>
+            <button
+              onClick={() => onPersistImagesChange(!persistImages)}
+              className="w-full flex items-center justify-between gap-4 p-4 rounded-2xl border border-slate-100 bg-slate-50 text-left"
+            >
+              <span>
+                <span className="block text-sm font-black text-slate-800">Keep source images</span>
+                <span className="block text-xs text-slate-500 mt-1">Save uploaded passport images with the manifest on this device. Records are always saved.</span>
+              </span>
+              <span className={`w-12 h-7 rounded-full p-1 transition-colors shrink-0 ${persistImages ? 'bg-blue-600' : 'bg-slate-200'}`}>
+                <span className={`block w-5 h-5 bg-white rounded-full shadow transition-transform ${persistImages ? 'translate-x-5' : ''}`}></span>
+              </span>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
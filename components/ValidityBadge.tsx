@@ -0,0 +1,28 @@
+import React from 'react';
+import { ValidityResult } from '../types';
+import { VALIDITY_LABELS } from '../services/validityService';
+
+interface ValidityBadgeProps {
+  validity?: ValidityResult;
+}
+
+const STYLES: Record<ValidityResult['status'], string> = {
+  valid: 'bg-green-100 text-green-700',
+  expiring: 'bg-amber-100 text-amber-700',
+  expired: 'bg-red-100 text-red-700',
+  unknown: 'bg-slate-100 text-slate-400',
+};
+
+const ValidityBadge: React.FC<ValidityBadgeProps> = ({ validity }) => {
+  if (!validity) return null;
+  return (
+    <span 
+      className={`inline-block px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest ${STYLES[validity.status]}`}
+      title={validity.message}
+    >
+      {VALIDITY_LABELS[validity.status]}
+    </span>
+  );
+};
+
+export default ValidityBadge;
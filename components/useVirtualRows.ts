@@ -0,0 +1,29 @@
+import { RefObject, useEffect, useState } from 'react';
+
+// Window-scrolled virtualisation for lists with a fixed row height. Only the rows in or near the
+// viewport are rendered; spacers of the same total height stand in for the rest.
+export function useVirtualRows(containerRef: RefObject<HTMLElement | null>, count: number, rowHeight: number, overscan = 8) {
+  const [range, setRange] = useState({ start: 0, end: 0 });
+
+  useEffect(() => {
+    const update = () => {
+      const el = containerRef.current;
+      if (!el) return;
+      const top = el.getBoundingClientRect().top;
+      const start = Math.min(count, Math.max(0, Math.floor(-top / rowHeight) - overscan));
+      const end = Math.min(count, Math.max(start, Math.ceil((window.innerHeight - top) / rowHeight) + overscan));
+      setRange(prev => prev.start === start && prev.end === end ? prev : { start, end });
+    };
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [containerRef, count, rowHeight, overscan]);
+
+  const end = Math.min(range.end, count);
+  const start = Math.min(range.start, end);
+  return { start, end, before: start * rowHeight, after: (count - end) * rowHeight };
+}
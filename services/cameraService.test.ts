@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest';
+import { SPECIMEN_MRZ } from './cameraService';
+import { parseMrz } from './mrzService';
+
+describe('SPECIMEN_MRZ', () => {
+  it.each(SPECIMEN_MRZ)('passes every check digit: %s', (...lines) => {
+    const mrz = parseMrz(lines.join('\n'));
+    expect(mrz?.format).toBe('TD3');
+    expect(mrz?.checks).toEqual({ documentNumber: true, dateOfBirth: true, expiryDate: true, composite: true });
+  });
+});
@@ -0,0 +1,77 @@
+// Add ?fakeCamera to the URL to scan from a generated video instead of a real camera, for testing
+// on machines without one (or in headless browsers)
+const FAKE_CAMERA_PARAM = 'fakeCamera';
+
+// ICAO specimen data page, so the fake feed has an MRZ to read
+export const SPECIMEN_MRZ = [
+  ['P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<', 'L898902C36UTO7408122F1204159ZE184226B<<<<<10'],
+  ['P<UTOSPECIMEN<<JOHN<<<<<<<<<<<<<<<<<<<<<<<<<', 'X123456785UTO8001014M3001019<<<<<<<<<<<<<<02'],
+];
+
+export const isFakeCamera = () => new URLSearchParams(window.location.search).has(FAKE_CAMERA_PARAM);
+
+// A canvas-drawn desk with a passport that slides into place, holds still for a few seconds and
+// is then swapped for the next one, which exercises auto-capture and continuous mode
+export function createFakeCameraStream(width = 1280, height = 720, fps = 15): MediaStream {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  const stream = canvas.captureStream(fps);
+  const track = stream.getVideoTracks()[0];
+  const started = performance.now();
+  const cycleMs = 6000;
+
+  const draw = () => {
+    if (track.readyState === 'ended') return;
+    const elapsed = performance.now() - started;
+    const cycle = Math.floor(elapsed / cycleMs);
+    const t = (elapsed % cycleMs) / cycleMs;
+    // Slides in over the first fifth of each cycle and out over the last tenth
+    const offset = t < 0.2 ? (1 - t / 0.2) * width : t > 0.9 ? ((t - 0.9) / 0.1) * -width : 0;
+
+    ctx.fillStyle = '#3f3a36';
+    ctx.fillRect(0, 0, width, height);
+
+    const pageW = width * 0.6;
+    const pageH = pageW * 88 / 125;
+    const x = (width - pageW) / 2 + offset;
+    const y = (height - pageH) / 2;
+    ctx.fillStyle = '#f1eee4';
+    ctx.fillRect(x, y, pageW, pageH);
+    ctx.fillStyle = '#9aa9b8';
+    ctx.fillRect(x + pageW * 0.05, y + pageH * 0.12, pageW * 0.25, pageH * 0.45);
+    ctx.fillStyle = '#222';
+    ctx.font = `bold ${Math.round(pageH * 0.05)}px sans-serif`;
+    ctx.fillText('PASSPORT · SPECIMEN', x + pageW * 0.34, y + pageH * 0.1);
+    ctx.font = `${Math.round(pageH * 0.04)}px sans-serif`;
+    for (let i = 0; i < 6; i++) ctx.fillText(`FIELD ${i + 1}  ${'X'.repeat(8 + ((i + cycle) % 5))}`, x + pageW * 0.34, y + pageH * (0.2 + i * 0.07));
+    ctx.font = `${Math.round(pageH * 0.055)}px monospace`;
+    SPECIMEN_MRZ[cycle % SPECIMEN_MRZ.length].forEach((line, i) => ctx.fillText(line, x + pageW * 0.04, y + pageH * (0.83 + i * 0.09), pageW * 0.92));
+
+    setTimeout(draw, 1000 / fps);
+  };
+  draw();
+  return stream;
+}
+
+// Rear camera at the highest resolution the device offers, falling back to whatever it has
+export async function openCamera(): Promise<MediaStream> {
+  if (isFakeCamera()) return createFakeCameraStream();
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new Error('This browser cannot open the camera. Use Upload Files instead.');
+  }
+  try {
+    return await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false,
+    });
+  } catch (err) {
+    const name = err instanceof Error ? err.name : '';
+    if (name === 'NotAllowedError') throw new Error('Camera access was blocked. Allow it in the browser settings, or use Upload Files instead.');
+    if (name === 'NotFoundError') throw new Error('No camera was found on this device. Use Upload Files instead.');
+    throw new Error('The camera could not be started. Close other apps using it and try again.');
+  }
+}
+
+export const stopCamera = (stream: MediaStream | null) => stream?.getTracks().forEach(track => track.stop());
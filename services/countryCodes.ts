@@ -0,0 +1,60 @@
+// ICAO / ISO 3166 alpha-3 codes for the nationalities we see on manifests, keyed by the
+// country names and adjectives that turn up in scans and client spreadsheets
+const COUNTRIES: { code: string; names: string[] }[] = [
+  { code: 'IND', names: ['INDIA', 'INDIAN'] },
+  { code: 'PAK', names: ['PAKISTAN', 'PAKISTANI'] },
+  { code: 'BGD', names: ['BANGLADESH', 'BANGLADESHI'] },
+  { code: 'LKA', names: ['SRI LANKA', 'SRI LANKAN'] },
+  { code: 'NPL', names: ['NEPAL', 'NEPALESE', 'NEPALI'] },
+  { code: 'BTN', names: ['BHUTAN', 'BHUTANESE'] },
+  { code: 'MDV', names: ['MALDIVES', 'MALDIVIAN'] },
+  { code: 'AFG', names: ['AFGHANISTAN', 'AFGHAN'] },
+  { code: 'SAU', names: ['SAUDI ARABIA', 'SAUDI', 'SAUDI ARABIAN'] },
+  { code: 'ARE', names: ['UNITED ARAB EMIRATES', 'UAE', 'EMIRATI'] },
+  { code: 'QAT', names: ['QATAR', 'QATARI'] },
+  { code: 'KWT', names: ['KUWAIT', 'KUWAITI'] },
+  { code: 'BHR', names: ['BAHRAIN', 'BAHRAINI'] },
+  { code: 'OMN', names: ['OMAN', 'OMANI'] },
+  { code: 'YEM', names: ['YEMEN', 'YEMENI'] },
+  { code: 'JOR', names: ['JORDAN', 'JORDANIAN'] },
+  { code: 'IRN', names: ['IRAN', 'IRANIAN'] },
+  { code: 'IRQ', names: ['IRAQ', 'IRAQI'] },
+  { code: 'EGY', names: ['EGYPT', 'EGYPTIAN'] },
+  { code: 'TUR', names: ['TURKEY', 'TURKIYE', 'TURKISH'] },
+  { code: 'IDN', names: ['INDONESIA', 'INDONESIAN'] },
+  { code: 'MYS', names: ['MALAYSIA', 'MALAYSIAN'] },
+  { code: 'SGP', names: ['SINGAPORE', 'SINGAPOREAN'] },
+  { code: 'THA', names: ['THAILAND', 'THAI'] },
+  { code: 'PHL', names: ['PHILIPPINES', 'FILIPINO'] },
+  { code: 'CHN', names: ['CHINA', 'CHINESE'] },
+  { code: 'JPN', names: ['JAPAN', 'JAPANESE'] },
+  { code: 'KOR', names: ['SOUTH KOREA', 'KOREA', 'KOREAN'] },
+  { code: 'GBR', names: ['UNITED KINGDOM', 'UK', 'BRITISH', 'GREAT BRITAIN'] },
+  { code: 'IRL', names: ['IRELAND', 'IRISH'] },
+  { code: 'FRA', names: ['FRANCE', 'FRENCH'] },
+  { code: 'DEU', names: ['GERMANY', 'GERMAN'] },
+  { code: 'ITA', names: ['ITALY', 'ITALIAN'] },
+  { code: 'ESP', names: ['SPAIN', 'SPANISH'] },
+  { code: 'NLD', names: ['NETHERLANDS', 'DUTCH'] },
+  { code: 'USA', names: ['UNITED STATES', 'UNITED STATES OF AMERICA', 'US', 'AMERICAN'] },
+  { code: 'CAN', names: ['CANADA', 'CANADIAN'] },
+  { code: 'AUS', names: ['AUSTRALIA', 'AUSTRALIAN'] },
+  { code: 'NZL', names: ['NEW ZEALAND', 'NEW ZEALANDER'] },
+  { code: 'ZAF', names: ['SOUTH AFRICA', 'SOUTH AFRICAN'] },
+  { code: 'KEN', names: ['KENYA', 'KENYAN'] },
+  { code: 'NGA', names: ['NIGERIA', 'NIGERIAN'] },
+];
+
+const BY_NAME = new Map<string, string>();
+COUNTRIES.forEach(({ code, names }) => {
+  BY_NAME.set(code, code);
+  names.forEach(name => BY_NAME.set(name, code));
+});
+
+// Returns the alpha-3 code for a country name, adjective or code, or null if we don't know it.
+// Three-letter values not in the list are passed through as codes, e.g. from an MRZ.
+export function toAlpha3(value?: string): string | null {
+  const key = (value || '').trim().toUpperCase().replace(/\s+/g, ' ');
+  if (!key) return null;
+  return BY_NAME.get(key) || (/^[A-Z]{3}$/.test(key) ? key : null);
+}
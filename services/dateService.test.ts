@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { ExportDateFormat } from '../types';
+import { ageInYears, calendarDate, Century, compareDates, expandYear, formatDate, normaliseDate, parseDate, toIsoDate } from './dateService';
+
+const iso = (value: string, century?: Century, format?: ExportDateFormat) => {
+  const date = parseDate(value, century, format);
+  return date ? toIsoDate(date) : null;
+};
+
+describe('parseDate', () => {
+  it('reads the layouts people and the model produce', () => {
+    expect(iso('1990-03-12')).toBe('1990-03-12');
+    expect(iso('1990-03-12T00:00:00Z')).toBe('1990-03-12');
+    expect(iso('12/03/1990')).toBe('1990-03-12');
+    expect(iso('12.03.1990')).toBe('1990-03-12');
+    expect(iso('12-03-1990')).toBe('1990-03-12');
+    expect(iso('12 MAR 1990')).toBe('1990-03-12');
+    expect(iso('12-Mar-1990')).toBe('1990-03-12');
+    expect(iso('12 March, 1990')).toBe('1990-03-12');
+    expect(iso('12MAR90')).toBe('1990-03-12');
+    expect(iso('900312')).toBe('1990-03-12');
+  });
+
+  it('reads numeric dates month-first only when shown that way', () => {
+    expect(iso('03/12/1990')).toBe('1990-12-03');
+    expect(iso('03/12/1990', 'past', 'MM/DD/YYYY')).toBe('1990-03-12');
+  });
+
+  it('puts two-digit expiry years in the 2000s', () => {
+    expect(iso('12MAR30', 'future')).toBe('2030-03-12');
+    expect(iso('300312', 'future')).toBe('2030-03-12');
+  });
+
+  it('rejects days that do not exist', () => {
+    expect(parseDate('31/02/1990')).toBeNull();
+    expect(parseDate('12/13/1990')).toBeNull();
+    expect(parseDate('12 FOO 1990')).toBeNull();
+    expect(parseDate('')).toBeNull();
+    expect(parseDate(undefined)).toBeNull();
+  });
+});
+
+describe('expandYear', () => {
+  const today = new Date(2026, 0, 1);
+
+  it('puts past years no later than this year', () => {
+    expect(expandYear(26, 'past', today)).toBe(2026);
+    expect(expandYear(27, 'past', today)).toBe(1927);
+    expect(expandYear(5, 'past', today)).toBe(2005);
+  });
+
+  it('always puts future years in the 2000s', () => {
+    expect(expandYear(99, 'future', today)).toBe(2099);
+  });
+});
+
+describe('calendarDate', () => {
+  it('handles leap years', () => {
+    expect(calendarDate(2024, 2, 29)).not.toBeNull();
+    expect(calendarDate(2023, 2, 29)).toBeNull();
+  });
+});
+
+describe('normaliseDate', () => {
+  it('stores recognised dates as ISO and keeps anything else as typed', () => {
+    expect(normaliseDate('12 MAR 1990')).toBe('1990-03-12');
+    expect(normaliseDate(' unknown ')).toBe('unknown');
+    expect(normaliseDate(undefined)).toBe('');
+  });
+});
+
+describe('formatDate', () => {
+  it('writes every supported format', () => {
+    expect(formatDate('1990-03-02')).toBe('02/03/1990');
+    expect(formatDate('1990-03-02', 'DD-MM-YYYY')).toBe('02-03-1990');
+    expect(formatDate('1990-03-02', 'DD.MM.YYYY')).toBe('02.03.1990');
+    expect(formatDate('1990-03-02', 'YYYY-MM-DD')).toBe('1990-03-02');
+    expect(formatDate('1990-03-02', 'MM/DD/YYYY')).toBe('03/02/1990');
+    expect(formatDate('1990-03-02', 'DD MMM YYYY')).toBe('02 MAR 1990');
+    expect(formatDate('1990-03-02', 'DDMMMYY')).toBe('02MAR90');
+  });
+
+  it('shows unreadable values as they are', () => {
+    expect(formatDate('soon')).toBe('soon');
+    expect(formatDate('')).toBe('');
+  });
+});
+
+describe('compareDates', () => {
+  it('sorts chronologically with blanks last', () => {
+    const sorted = ['2001-01-01', '', '1990-05-05', 'junk', '1995-01-01'].sort(compareDates);
+    expect(sorted.slice(0, 3)).toEqual(['1990-05-05', '1995-01-01', '2001-01-01']);
+  });
+});
+
+describe('ageInYears', () => {
+  it('counts a birthday only once it has been reached', () => {
+    const birth = new Date(2000, 5, 15);
+    expect(ageInYears(birth, new Date(2010, 5, 14))).toBe(9);
+    expect(ageInYears(birth, new Date(2010, 5, 15))).toBe(10);
+  });
+});
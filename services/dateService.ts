@@ -0,0 +1,128 @@
+import { DateField, ExportDateFormat } from '../types';
+
+// Passport dates are stored as ISO YYYY-MM-DD, like the manifest's travel dates. Everything that
+// reads, compares or shows a date goes through this module, so the stored form never leaks into
+// the UI and a hand-typed or extracted value is understood the same way everywhere.
+
+const DISPLAY_FORMAT_KEY = 'bestex.dateDisplayFormat';
+
+export const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// The formats offered for on-screen display; the compact GDS form is for exports only
+export const DISPLAY_DATE_FORMATS: ExportDateFormat[] = ['DD/MM/YYYY', 'DD MMM YYYY', 'YYYY-MM-DD', 'MM/DD/YYYY'];
+
+export const DEFAULT_DISPLAY_FORMAT: ExportDateFormat = 'DD/MM/YYYY';
+
+export const DATE_FIELDS: DateField[] = ['dateOfBirth', 'issueDate', 'expiryDate'];
+
+export const isDateField = (field: string): field is DateField => (DATE_FIELDS as string[]).includes(field);
+
+// Which way a two-digit year goes: birth and issue dates are in the past, expiry dates are 20xx
+export type Century = 'past' | 'future';
+
+export const centuryFor = (field: string): Century => field === 'expiryDate' ? 'future' : 'past';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// A local date, or null when the parts don't make a real calendar day (31/02, month 13)
+export function calendarDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+export function expandYear(yy: number, century: Century, today = new Date()): number {
+  if (century === 'future') return 2000 + yy;
+  return yy > today.getFullYear() % 100 ? 1900 + yy : 2000 + yy;
+}
+
+// Reads the layouts the model, the MRZ, spreadsheets and people produce. Numeric dates are read
+// day-first, since that's how passports and our exports write them, unless the user shows dates
+// month-first, in which case what they type is read the same way.
+export function parseDate(value: string | undefined, century: Century = 'past', format?: ExportDateFormat): Date | null {
+  const text = (value || '').trim().toUpperCase();
+  if (!text) return null;
+  let match = /^(\d{4})-(\d{1,2})-(\d{1,2})(T[\d:.]+Z?)?$/.exec(text);
+  if (match) return calendarDate(+match[1], +match[2], +match[3]);
+  match = /^(\d{1,2})[/.\-](\d{1,2})[/.\-](\d{4})$/.exec(text);
+  if (match) return format === 'MM/DD/YYYY' ? calendarDate(+match[3], +match[1], +match[2]) : calendarDate(+match[3], +match[2], +match[1]);
+  // 12 MAR 1990, 12-Mar-1990, 12 March, 1990 and the GDS 12MAR90
+  match = /^(\d{1,2})[\s\-]*([A-Z]{3})[A-Z]*\.?[\s\-,]*(\d{4}|\d{2})$/.exec(text);
+  if (match) {
+    const month = MONTHS.indexOf(match[2]) + 1;
+    if (!month) return null;
+    const year = match[3].length === 2 ? expandYear(+match[3], century) : +match[3];
+    return calendarDate(year, month, +match[1]);
+  }
+  // YYMMDD as printed in the MRZ
+  match = /^(\d{2})(\d{2})(\d{2})$/.exec(text);
+  if (match) return calendarDate(expandYear(+match[1], century), +match[2], +match[3]);
+  return null;
+}
+
+export const toIsoDate = (date: Date) => `${String(date.getFullYear()).padStart(4, '0')}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// The stored form of a date. Anything that doesn't parse is kept as typed so validation can flag it.
+export function normaliseDate(value: string | undefined, century: Century = 'past', format?: ExportDateFormat): string {
+  if (!value) return '';
+  const date = parseDate(value, century, format);
+  return date ? toIsoDate(date) : value.trim();
+}
+
+// Anything that doesn't parse is shown as-is
+export function formatDate(value: string | undefined, format: ExportDateFormat = DEFAULT_DISPLAY_FORMAT): string {
+  if (!value) return '';
+  const date = parseDate(value);
+  if (!date) return value;
+  const d = pad(date.getDate());
+  const m = pad(date.getMonth() + 1);
+  const y = String(date.getFullYear());
+  switch (format) {
+    case 'DD-MM-YYYY': return `${d}-${m}-${y}`;
+    case 'DD.MM.YYYY': return `${d}.${m}.${y}`;
+    case 'YYYY-MM-DD': return `${y}-${m}-${d}`;
+    case 'MM/DD/YYYY': return `${m}/${d}/${y}`;
+    case 'DD MMM YYYY': return `${d} ${MONTHS[date.getMonth()]} ${y}`;
+    case 'DDMMMYY': return `${d}${MONTHS[date.getMonth()]}${y.slice(-2)}`;
+    default: return `${d}/${m}/${y}`;
+  }
+}
+
+// Chronological order; blank and unreadable dates go last
+export function compareDates(a?: string, b?: string): number {
+  const x = parseDate(a)?.getTime();
+  const y = parseDate(b)?.getTime();
+  if (x === undefined || y === undefined) return x === y ? 0 : x === undefined ? 1 : -1;
+  return x - y;
+}
+
+// Whole years on a date, counting a birthday only once it has been reached
+export function ageInYears(birth: Date, on: Date): number {
+  let age = on.getFullYear() - birth.getFullYear();
+  const m = on.getMonth() - birth.getMonth();
+  if (m < 0 || (m === 0 && on.getDate() < birth.getDate())) age--;
+  return age;
+}
+
+export const yearsBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / (365.25 * 24 * 3600 * 1000);
+
+export const addMonths = (date: Date, months: number) => {
+  const result = new Date(date);
+  result.setMonth(result.getMonth() + months);
+  return result;
+};
+
+export const endOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), 23, 59, 59);
+
+// Shown next to date inputs so users know what they can type
+export const dateInputHint = (format: ExportDateFormat) =>
+  `Use ${format === 'MM/DD/YYYY' ? 'MM/DD/YYYY' : 'DD/MM/YYYY'}, DD MMM YYYY, YYMMDD or YYYY-MM-DD`;
+
+export function loadDateDisplayFormat(): ExportDateFormat {
+  const stored = localStorage.getItem(DISPLAY_FORMAT_KEY) as ExportDateFormat | null;
+  return stored && DISPLAY_DATE_FORMATS.includes(stored) ? stored : DEFAULT_DISPLAY_FORMAT;
+}
+
+export function saveDateDisplayFormat(format: ExportDateFormat) {
+  localStorage.setItem(DISPLAY_FORMAT_KEY, format);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { makePassport } from '../test/fixtures';
+import { DUPLICATE_THRESHOLD, editDistance, findAllDuplicates, findDuplicates, scoreMatch } from './duplicateService';
+
+describe('editDistance', () => {
+  it('counts a swapped pair as one edit', () => {
+    expect(editDistance('12345', '12435')).toBe(1);
+    expect(editDistance('12345', '1235')).toBe(1);
+    expect(editDistance('abc', 'xyz')).toBe(3);
+  });
+});
+
+describe('scoreMatch', () => {
+  it('scores the same traveller highly', () => {
+    const { score, reasons } = scoreMatch(makePassport('a'), makePassport('b'));
+    expect(score).toBe(110);
+    expect(reasons).toEqual(['Same passport number', 'Same name', 'Same date of birth']);
+  });
+
+  it('sees through OCR look-alikes in the passport number', () => {
+    const { score, reasons } = scoreMatch(makePassport('a', { passportNumber: 'L8989O2C3' }), makePassport('b'));
+    expect(score).toBe(100);
+    expect(reasons[0]).toMatch(/look-alike/);
+  });
+
+  it('matches transliteration variants and swapped names', () => {
+    const a = { firstName: 'MOHAMMED', lastName: 'ALI' };
+    expect(scoreMatch(a, { firstName: 'MUHAMMAD', lastName: 'ALI' }).reasons).toEqual(['Similar spelling: MOHAMMED ALI / MUHAMMAD ALI']);
+    expect(scoreMatch(a, { firstName: 'ALI', lastName: 'MOHAMMED' }).reasons).toEqual(['Same name with first and last name swapped']);
+  });
+
+  it('marks down a different birth date and nationality', () => {
+    const { score } = scoreMatch(makePassport('a', { passportNumber: '' }), makePassport('b', { passportNumber: '', dateOfBirth: '1980-01-01', nationality: 'GBR' }));
+    expect(score).toBe(25 - 30 - 10);
+  });
+});
+
+describe('findDuplicates', () => {
+  it('returns completed matches above the threshold, best first', () => {
+    const list = [
+      makePassport('self'),
+      makePassport('exact'),
+      makePassport('near', { passportNumber: 'L898902C4' }),
+      makePassport('scanning', { status: 'processing' }),
+      makePassport('other', { firstName: 'JOHN', lastName: 'SMITH', passportNumber: 'X1234567', dateOfBirth: '1980-01-01' }),
+    ];
+    const matches = findDuplicates(list[0], list, 'self');
+    expect(matches.map(m => m.id)).toEqual(['exact', 'near']);
+    expect(matches.every(m => m.score >= DUPLICATE_THRESHOLD)).toBe(true);
+  });
+
+  it('skips pairs marked as different people', () => {
+    const list = [makePassport('a', { notDuplicateOf: ['b'] }), makePassport('b')];
+    expect(findDuplicates(list[1], list, 'b')).toEqual([]);
+  });
+});
+
+describe('findAllDuplicates', () => {
+  it('agrees with comparing every pair', () => {
+    const list = [
+      makePassport('a'),
+      makePassport('b', { passportNumber: 'L898920C3' }),
+      makePassport('c', { passportNumber: '', firstName: 'ANA MARIA' }),
+      makePassport('d', { firstName: 'JOHN', lastName: 'SMITH', passportNumber: 'X1234567', dateOfBirth: '1980-01-01' }),
+    ];
+    const all = findAllDuplicates(list);
+    list.forEach(p => {
+      const expected = findDuplicates(p, list, p.id);
+      expect(all[p.id] || []).toEqual(expected);
+    });
+    expect(all.d).toBeUndefined();
+  });
+});
+
+describe('findAllDuplicates reuse', () => {
+  it('hands back the same matches while a record and its matches are unchanged', () => {
+    const list = [makePassport('a'), makePassport('b'), makePassport('c', { firstName: 'JOHN', lastName: 'SMITH', passportNumber: 'X1234567' })];
+    const first = findAllDuplicates(list);
+    const edited = list.map(p => (p.id === 'c' ? { ...p, firstName: 'JON' } : p));
+    const second = findAllDuplicates(edited);
+    expect(second.a).toBe(first.a);
+    expect(second.b).toBe(first.b);
+  });
+});
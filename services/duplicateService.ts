@@ -0,0 +1,178 @@
+import { DuplicateMatch, PassportData } from '../types';
+
+// Scores at or above this are shown as duplicates
+export const DUPLICATE_THRESHOLD = 45;
+
+// Characters OCR commonly confuses in passport numbers, folded to the digit
+const OCR_FOLD: Record<string, string> = { O: '0', Q: '0', D: '0', I: '1', L: '1', Z: '2', S: '5', B: '8', G: '6' };
+
+const cleanNumber = (value?: string) => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+const foldNumber = (value: string) => value.replace(/[A-Z]/g, (c, i) => i === 0 ? c : OCR_FOLD[c] || c);
+
+const cleanName = (value?: string) => (value || '').toUpperCase().replace(/[^A-Z ]+/g, ' ').replace(/\s+/g, ' ').trim();
+const nameTokens = (p: Partial<PassportData>) => `${cleanName(p.firstName)} ${cleanName(p.lastName)}`.split(' ').filter(Boolean);
+
+// Phonetic skeleton for transliteration variants: MOHAMMED, MUHAMMAD and MOHAMED all become MHMD
+const phonetic = (word: string) => {
+  const folded = word
+    .replace(/PH/g, 'F').replace(/KH/g, 'K').replace(/GH/g, 'G').replace(/SH/g, 'S').replace(/TH/g, 'T').replace(/DH/g, 'D')
+    .replace(/CK/g, 'K').replace(/Q/g, 'K').replace(/W/g, 'V').replace(/Z/g, 'J');
+  const skeleton = folded[0] + folded.slice(1).replace(/[AEIOUYH]/g, '');
+  return skeleton.replace(/(.)\1+/g, '$1');
+};
+
+// Optimal string alignment distance, so a swapped pair of digits counts as one edit
+export function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+const sameTokens = (a: string[], b: string[]) => a.length === b.length && [...a].sort().join(' ') === [...b].sort().join(' ');
+
+function compareNames(a: Partial<PassportData>, b: Partial<PassportData>): { score: number; reason: string } | null {
+  const first = [cleanName(a.firstName), cleanName(b.firstName)];
+  const last = [cleanName(a.lastName), cleanName(b.lastName)];
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return null;
+
+  if (first[0] === first[1] && last[0] === last[1]) return { score: 25, reason: 'Same name' };
+  if (sameTokens(tokensA, tokensB)) return { score: 25, reason: 'Same name with first and last name swapped' };
+  if (sameTokens(tokensA.map(phonetic), tokensB.map(phonetic))) {
+    return { score: 20, reason: `Similar spelling: ${tokensA.join(' ')} / ${tokensB.join(' ')}` };
+  }
+  const joinedA = tokensA.join(' ');
+  const joinedB = tokensB.join(' ');
+  const distance = editDistance(joinedA, joinedB);
+  if (Math.min(joinedA.length, joinedB.length) >= 6 && distance <= 2) {
+    return { score: 15, reason: `Name differs by ${distance} letter${distance === 1 ? '' : 's'}` };
+  }
+  return null;
+}
+
+export function scoreMatch(a: Partial<PassportData>, b: Partial<PassportData>): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  const numberA = cleanNumber(a.passportNumber);
+  const numberB = cleanNumber(b.passportNumber);
+  if (numberA && numberB) {
+    if (numberA === numberB) {
+      score += 60;
+      reasons.push('Same passport number');
+    } else if (foldNumber(numberA) === foldNumber(numberB)) {
+      score += 50;
+      reasons.push(`Passport numbers differ only by look-alike characters (${numberA} / ${numberB})`);
+    } else if (editDistance(foldNumber(numberA), foldNumber(numberB)) === 1) {
+      score += 45;
+      reasons.push(`Passport numbers differ by one character (${numberA} / ${numberB})`);
+    }
+  }
+
+  const name = compareNames(a, b);
+  if (name) {
+    score += name.score;
+    reasons.push(name.reason);
+  }
+
+  if (a.dateOfBirth && b.dateOfBirth) {
+    if (a.dateOfBirth.trim() === b.dateOfBirth.trim()) {
+      score += 20;
+      reasons.push('Same date of birth');
+    } else {
+      // Different birth dates usually mean two people who happen to share a name
+      score -= 30;
+    }
+  }
+
+  const nationalityA = cleanName(a.nationality);
+  const nationalityB = cleanName(b.nationality);
+  if (nationalityA && nationalityB) score += nationalityA === nationalityB ? 5 : -10;
+
+  return { score, reasons };
+}
+
+// Completed records in the list that look like the same traveller, best match first
+export function findDuplicates(target: Partial<PassportData>, list: PassportData[], excludeId?: string, score = scoreMatch): DuplicateMatch[] {
+  const matches: DuplicateMatch[] = [];
+  list.forEach(p => {
+    if (p.id === excludeId || p.status !== 'completed') return;
+    if (excludeId && (p.notDuplicateOf?.includes(excludeId) || target.notDuplicateOf?.includes(p.id))) return;
+    const result = score(target, p);
+    if (result.score >= DUPLICATE_THRESHOLD) matches.push({ id: p.id, ...result });
+  });
+  return matches.sort((x, y) => y.score - x.score);
+}
+
+// Records are replaced rather than mutated, so results are cached per record object and editing
+// one record only re-scores the pairs it is part of
+const keyCache = new WeakMap<PassportData, string[]>();
+const scoreCache = new WeakMap<object, WeakMap<PassportData, { score: number; reasons: string[] }>>();
+
+// Without a near-identical passport number the best a pair can score is a matching name and
+// nationality plus the same date of birth, so only records sharing a number key or a birth date
+// can reach the threshold. Number keys include every single-character deletion, which lines up
+// numbers one substitution, insertion or swap apart.
+function candidateKeys(p: PassportData): string[] {
+  const cached = keyCache.get(p);
+  if (cached) return cached;
+  const keys: string[] = [];
+  const number = foldNumber(cleanNumber(p.passportNumber));
+  if (number) {
+    keys.push(`N:${number}`);
+    for (let i = 0; i < number.length; i++) keys.push(`N:${number.slice(0, i)}${number.slice(i + 1)}`);
+  }
+  if (p.dateOfBirth?.trim()) keys.push(`D:${p.dateOfBirth.trim()}`);
+  keyCache.set(p, keys);
+  return keys;
+}
+
+function cachedScore(a: Partial<PassportData>, b: PassportData) {
+  let scores = scoreCache.get(a);
+  if (!scores) scoreCache.set(a, scores = new WeakMap());
+  let result = scores.get(b);
+  if (!result) scores.set(b, result = scoreMatch(a, b));
+  return result;
+}
+
+// The last matches found for each record, handed back again while they are unchanged so memoized
+// rows can compare them by reference. Scores come from the cache above, so unchanged pairs share `reasons`.
+const matchCache = new WeakMap<PassportData, DuplicateMatch[]>();
+
+const sameMatches = (a: DuplicateMatch[], b: DuplicateMatch[]) =>
+  a.length === b.length && a.every((m, i) => m.id === b[i].id && m.score === b[i].score && m.reasons === b[i].reasons);
+
+export function findAllDuplicates(passports: PassportData[]): Record<string, DuplicateMatch[]> {
+  const completed = passports.filter(p => p.status === 'completed');
+  const buckets = new Map<string, PassportData[]>();
+  completed.forEach(p => candidateKeys(p).forEach(key => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(p); else buckets.set(key, [p]);
+  }));
+
+  const result: Record<string, DuplicateMatch[]> = {};
+  completed.forEach(p => {
+    const candidates = new Set<PassportData>();
+    candidateKeys(p).forEach(key => buckets.get(key)!.forEach(c => candidates.add(c)));
+    const matches = findDuplicates(p, [...candidates], p.id, cachedScore);
+    if (matches.length === 0) return;
+    const previous = matchCache.get(p);
+    if (previous && sameMatches(previous, matches)) {
+      result[p.id] = previous;
+    } else {
+      matchCache.set(p, matches);
+      result[p.id] = matches;
+    }
+  });
+  return result;
+}
@@ -0,0 +1,25 @@
+// Raised by extraction providers. `transient` marks failures worth retrying (rate limits, outages, network drops).
+export class ExtractionError extends Error {
+  transient: boolean;
+
+  constructor(message: string, transient = false) {
+    super(message);
+    this.name = 'ExtractionError';
+    this.transient = transient;
+  }
+}
+
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof ExtractionError) return error.transient;
+  // fetch() rejects with a TypeError when the network drops
+  return error instanceof TypeError;
+}
+
+// Raised when the saved session can't be read back. Saving stays off afterwards so the stored
+// record isn't overwritten by an empty manifest.
+export class SessionRestoreError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SessionRestoreError';
+  }
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { makeManifest, makePassport } from '../test/fixtures';
+import { buildCsv, buildPrintableHtml } from './exportFormats';
+import { DEFAULT_TEMPLATE } from './exportTemplates';
+import { DEFAULT_PASSENGER_POLICY } from './passengerPolicy';
+
+const manifest = makeManifest({ groupName: 'Umrah <March>' });
+const passports = [makePassport('a', { lastName: 'O"BRIEN, JR' })];
+const ctx = { manifest, policy: DEFAULT_PASSENGER_POLICY, validity: {} };
+
+describe('buildPrintableHtml', () => {
+  it('escapes manifest and passenger text', () => {
+    const html = buildPrintableHtml(DEFAULT_TEMPLATE, manifest, passports, ctx);
+    expect(html).toContain('Umrah &lt;March&gt;');
+    expect(html).toContain('O&quot;BRIEN, JR');
+    expect(html).toContain('12/08/1974');
+  });
+
+  it('only puts hex colours into the stylesheet', () => {
+    const template = { ...DEFAULT_TEMPLATE, headerFill: '000; } body { display: none', headerFont: 'abc123' };
+    const html = buildPrintableHtml(template, manifest, passports, ctx);
+    expect(html).not.toContain('display: none');
+    expect(html).toContain(`background: #${DEFAULT_TEMPLATE.headerFill}; color: #abc123;`);
+  });
+});
+
+describe('buildCsv', () => {
+  it('quotes cells with commas and quotes', () => {
+    const csv = buildCsv(DEFAULT_TEMPLATE, passports, ctx);
+    expect(csv.startsWith('\uFEFF')).toBe(true);
+    expect(csv).toContain('"O""BRIEN, JR"');
+  });
+});
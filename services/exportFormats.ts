@@ -0,0 +1,126 @@
+import { ExportTemplate, Manifest, PassportData } from '../types';
+import { buildExportRows, DEFAULT_TEMPLATE, ExportContext, formatExportDate } from './exportTemplates';
+import { toAlpha3 } from './countryCodes';
+import { derivePassenger } from './passengerPolicy';
+import { describeManifest, formatDepartureDate } from './manifestService';
+
+export function downloadFile(content: string, fileName: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Plain CSV with the template's headers and no title rows, which upload portals reject.
+// The BOM makes Excel open it as UTF-8.
+export function buildCsv(template: ExportTemplate, passports: PassportData[], ctx: ExportContext): string {
+  const { headers, rows } = buildExportRows(template, passports, ctx);
+  return '\uFEFF' + [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+}
+
+// A fixed schema for the booking system, independent of the template layout. Dates are ISO.
+export function buildJson(passports: PassportData[], ctx: ExportContext): string {
+  const iso = (value?: string) => value ? formatExportDate(value, 'YYYY-MM-DD') : null;
+  const { manifest } = ctx;
+  return JSON.stringify({
+    manifest: {
+      groupName: manifest.groupName,
+      destination: manifest.destination || null,
+      departureDate: manifest.departureDate || null,
+      returnDate: manifest.returnDate || null,
+      airline: manifest.airline || null,
+      bookingReference: manifest.bookingReference || null,
+    },
+    exportedAt: new Date().toISOString(),
+    passengers: passports.map((p, i) => ({
+      number: i + 1,
+      type: p.passengerType || 'ADULT',
+      title: p.title || null,
+      firstName: p.firstName,
+      lastName: p.lastName,
+      gender: p.gender || null,
+      passportNumber: p.passportNumber,
+      nationality: p.nationality || null,
+      nationalityCode: toAlpha3(p.nationality),
+      dateOfBirth: iso(p.dateOfBirth),
+      issueDate: iso(p.issueDate),
+      expiryDate: iso(p.expiryDate),
+      ageAtTravel: derivePassenger(p, manifest, ctx.policy).age,
+      validity: ctx.validity[p.id]?.status || null,
+    })),
+  }, null, 2);
+}
+
+const escapeHtml = (value: string | number) => String(value)
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Template colours come from localStorage, so anything that isn't RRGGBB is replaced before it reaches the CSS
+const hexColour = (value: string, fallback: string) => /^[0-9A-F]{6}$/i.test(value) ? value : fallback;
+
+// Print-ready manifest for tour leaders. The browser's print dialog saves it as PDF.
+// Page numbers use @page margin boxes, which only Chromium prints; the export dialog says so.
+export function buildPrintableHtml(template: ExportTemplate, manifest: Manifest, passports: PassportData[], ctx: ExportContext): string {
+  const { headers, rows } = buildExportRows(template, passports, ctx);
+  const headerFill = hexColour(template.headerFill, DEFAULT_TEMPLATE.headerFill);
+  const headerFont = hexColour(template.headerFont, DEFAULT_TEMPLATE.headerFont);
+  const summary = describeManifest(manifest);
+  const returnLine = manifest.returnDate ? `Return ${formatDepartureDate(manifest.returnDate)}` : '';
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(manifest.groupName)}</title>
+<style>
+  @page { size: A4 landscape; margin: 14mm 12mm 18mm; @bottom-right { content: "Page " counter(page) " of " counter(pages); font: 9px sans-serif; color: #64748b; } }
+  body { font-family: Arial, sans-serif; color: #0f172a; margin: 0; }
+  .agency { display: flex; justify-content: space-between; align-items: baseline; border-bottom: 3px solid #1E3A8A; padding-bottom: 6px; }
+  .agency h1 { margin: 0; font-size: 20px; font-style: italic; color: #1E3A8A; }
+  .agency span { font-size: 10px; letter-spacing: 3px; color: #64748b; }
+  h2 { margin: 14px 0 2px; font-size: 16px; text-transform: uppercase; }
+  .summary { font-size: 11px; color: #475569; margin-bottom: 12px; }
+  table { width: 100%; border-collapse: collapse; font-size: 10px; }
+  thead { display: table-header-group; }
+  th { background: #${headerFill}; color: #${headerFont}; text-align: left; padding: 5px 6px; border: 1px solid #cbd5e1; }
+  td { padding: 5px 6px; border: 1px solid #cbd5e1; }
+  tr { page-break-inside: avoid; }
+  .footer { display: flex; justify-content: space-between; margin-top: 40px; font-size: 11px; page-break-inside: avoid; }
+  .signature { width: 260px; border-top: 1px solid #0f172a; padding-top: 4px; text-align: center; }
+</style>
+</head>
+<body>
+  <div class="agency"><h1>BESTEX NAMELIST</h1><span>TOURS &amp; TRAVELS</span></div>
+  <h2>${escapeHtml(manifest.groupName)}</h2>
+  <div class="summary">${escapeHtml([summary, returnLine, `${passports.length} passengers`].filter(Boolean).join(' · '))}</div>
+  <table>
+    <thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>
+    <tbody>
+${rows.map(row => `      <tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n')}
+    </tbody>
+  </table>
+  <div class="footer">
+    <div>Printed ${escapeHtml(new Date().toLocaleDateString('en-GB'))}</div>
+    <div class="signature">Tour Leader Signature</div>
+  </div>
+</body>
+</html>`;
+}
+
+// Opens the manifest in a new window and starts printing. Returns false if the popup was blocked.
+export function printHtml(html: string): boolean {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  // The page has no external resources, so it is ready to print as soon as it is written
+  win.focus();
+  win.print();
+  return true;
+}
@@ -0,0 +1,160 @@
+import { ExportColumnKey, ExportDateFormat, ExportTemplate, Manifest, PassengerPolicy, PassportData, ValidityResult } from '../types';
+import { formatDate, toIsoDate } from './dateService';
+import { derivePassenger } from './passengerPolicy';
+import { toAlpha3 } from './countryCodes';
+import { VALIDITY_LABELS } from './validityService';
+import { createId, describeManifest } from './manifestService';
+
+declare const XLSX: any;
+
+const TEMPLATES_KEY = 'bestex.exportTemplates';
+const SELECTED_KEY = 'bestex.exportTemplateId';
+
+export const EXPORT_COLUMNS: { key: ExportColumnKey; label: string; header: string }[] = [
+  { key: 'index', label: 'Row Number', header: 'NO' },
+  { key: 'passengerType', label: 'Type', header: 'TYPE' },
+  { key: 'title', label: 'Title', header: 'TITLE' },
+  { key: 'firstName', label: 'First Name', header: 'FIRST NAME' },
+  { key: 'lastName', label: 'Last Name', header: 'LAST NAME' },
+  { key: 'gender', label: 'Gender', header: 'GENDER' },
+  { key: 'passportNumber', label: 'Passport No.', header: 'PASSPORT NUMBER' },
+  { key: 'nationality', label: 'Country', header: 'COUNTRY' },
+  { key: 'nationalityCode', label: 'Country Code (ISO)', header: 'NATIONALITY' },
+  { key: 'dateOfBirth', label: 'Date of Birth', header: 'DATE OF BIRTH' },
+  { key: 'issueDate', label: 'Date of Issue', header: 'DATE OF ISSUE' },
+  { key: 'expiryDate', label: 'Date of Expiry', header: 'DATE OF EXPIRE' },
+  { key: 'validity', label: 'Passport Validity', header: 'PASSPORT VALIDITY' },
+  { key: 'age', label: 'Age at Travel', header: 'AGE' },
+  { key: 'fullName', label: 'Full Name', header: 'FULL NAME' },
+  { key: 'gdsName', label: 'GDS Name', header: 'NAME' },
+];
+
+export const DATE_FORMATS: ExportDateFormat[] = ['DD/MM/YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY', 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD MMM YYYY', 'DDMMMYY'];
+
+export const FILE_NAME_TOKENS = ['{group}', '{destination}', '{date}', '{pnr}', '{airline}', '{today}'];
+
+const columns = (keys: ExportColumnKey[]) => keys.map(key => ({ key, header: EXPORT_COLUMNS.find(c => c.key === key)!.header }));
+
+// The layout the app has always exported
+export const DEFAULT_TEMPLATE: ExportTemplate = {
+  id: 'default',
+  name: 'BESTEX Standard',
+  columns: columns(['index', 'passengerType', 'title', 'firstName', 'lastName', 'gender', 'passportNumber', 'nationality', 'dateOfBirth', 'issueDate', 'expiryDate']),
+  dateFormat: 'DD/MM/YYYY',
+  headerFill: 'FFFF00',
+  headerFont: '008000',
+  includeTitleRows: true,
+  sheetNamePattern: '{group}',
+  fileNamePattern: 'BESTEX_{group}_{destination}_{date}_{pnr}',
+  builtIn: true,
+};
+
+export function loadExportTemplates(): ExportTemplate[] {
+  try {
+    const stored: ExportTemplate[] = JSON.parse(localStorage.getItem(TEMPLATES_KEY) || '[]');
+    return [DEFAULT_TEMPLATE, ...stored.filter(t => !t.builtIn)];
+  } catch {
+    return [DEFAULT_TEMPLATE];
+  }
+}
+
+export function saveExportTemplates(templates: ExportTemplate[]) {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates.filter(t => !t.builtIn)));
+}
+
+export function loadSelectedTemplateId(): string {
+  return localStorage.getItem(SELECTED_KEY) || DEFAULT_TEMPLATE.id;
+}
+
+export function saveSelectedTemplateId(id: string) {
+  localStorage.setItem(SELECTED_KEY, id);
+}
+
+export function copyTemplate(source: ExportTemplate, name = `${source.name} (Copy)`): ExportTemplate {
+  return { ...source, id: createId(), name, columns: source.columns.map(c => ({ ...c })), builtIn: false };
+}
+
+// Anything that doesn't parse is exported as-is
+export const formatExportDate = (value: string | undefined, format: ExportDateFormat) => formatDate(value, format);
+
+export interface ExportContext {
+  manifest: Manifest;
+  policy: PassengerPolicy;
+  validity: Record<string, ValidityResult>;
+}
+
+function columnValue(key: ExportColumnKey, p: PassportData, index: number, template: ExportTemplate, ctx: ExportContext): string | number {
+  switch (key) {
+    case 'index': return index + 1;
+    case 'passengerType': return p.passengerType || 'ADULT';
+    case 'nationalityCode': return toAlpha3(p.nationality) || p.nationality || '';
+    case 'dateOfBirth':
+    case 'issueDate':
+    case 'expiryDate':
+      return formatExportDate(p[key], template.dateFormat);
+    case 'validity': return ctx.validity[p.id] ? VALIDITY_LABELS[ctx.validity[p.id].status].toUpperCase() : '';
+    case 'age': {
+      const age = derivePassenger(p, ctx.manifest, ctx.policy).age;
+      return age === null ? '' : age;
+    }
+    case 'fullName': return [p.title, p.firstName, p.lastName].filter(Boolean).join(' ');
+    case 'gdsName': return `${p.lastName || ''}/${p.firstName || ''}${p.title ? ` ${p.title}` : ''}`;
+    default: return p[key] || '';
+  }
+}
+
+export function buildExportRows(template: ExportTemplate, passports: PassportData[], ctx: ExportContext) {
+  const headers = template.columns.map(c => c.header);
+  const rows = passports.map((p, i) => template.columns.map(c => columnValue(c.key, p, i, template, ctx)));
+  return { headers, rows };
+}
+
+const sanitise = (value: string) => value.trim().replace(/[^A-Za-z0-9-]+/g, '_').replace(/^_+|_+$/g, '');
+
+// Fills {group}, {destination}, {date}, {pnr}, {airline} and {today}; empty tokens drop out with their separator
+export function fillPattern(pattern: string, manifest: Manifest, today = new Date()): string {
+  const values: Record<string, string | undefined> = {
+    group: manifest.groupName,
+    destination: manifest.destination,
+    date: manifest.departureDate,
+    pnr: manifest.bookingReference,
+    airline: manifest.airline,
+    today: toIsoDate(today),
+  };
+  return pattern.replace(/\{(\w+)\}/g, (_, token) => values[token] || '');
+}
+
+export function templateFileName(template: ExportTemplate, manifest: Manifest, extension: string): string {
+  const name = sanitise(fillPattern(template.fileNamePattern, manifest)).replace(/_{2,}/g, '_');
+  return `${name || 'Manifest'}.${extension}`;
+}
+
+// Excel sheet names are limited to 31 characters and can't contain : \ / ? * [ ]
+export function templateSheetName(template: ExportTemplate, manifest: Manifest): string {
+  return fillPattern(template.sheetNamePattern, manifest).replace(/[:\\/?*[\]]/g, ' ').trim().slice(0, 31) || 'Manifest';
+}
+
+export function buildExportSheet(template: ExportTemplate, passports: PassportData[], ctx: ExportContext) {
+  const { headers, rows } = buildExportRows(template, passports, ctx);
+
+  // Group details sit above the column headers
+  const summary = describeManifest(ctx.manifest);
+  const titleRows = template.includeTitleRows
+    ? [[ctx.manifest.groupName.toUpperCase()], ...(summary ? [[summary.toUpperCase()]] : []), []]
+    : [];
+  const worksheet = XLSX.utils.aoa_to_sheet([...titleRows, headers, ...rows]);
+  const headerRow = titleRows.length + 1;
+  if (titleRows.length && worksheet['A1']) worksheet['A1'].s = { font: { bold: true, sz: 14 } };
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  for (let C = range.s.c; C <= range.e.c; ++C) {
+    const address = XLSX.utils.encode_col(C) + headerRow;
+    if (!worksheet[address]) continue;
+    worksheet[address].s = {
+      fill: { fgColor: { rgb: template.headerFill } },
+      font: { bold: true, color: { rgb: template.headerFont } },
+      alignment: { horizontal: "center" }
+    };
+  }
+  return worksheet;
+}
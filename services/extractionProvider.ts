@@ -0,0 +1,45 @@
+import { ExtractionProvider, ExtractionProviderId, ExtractionSettings } from '../types';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL, DEFAULT_GEMINI_PROMPT } from './geminiService';
+import { createFixtureProvider } from './fixtureProvider';
+import { createMrzTextProvider } from './mrzTextProvider';
+
+const SETTINGS_KEY = 'bestex.extractionSettings';
+
+export const PROVIDER_OPTIONS: { id: ExtractionProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Gemini AI', description: 'Reads passport photos with the Gemini model. Needs an API key and network.' },
+  { id: 'fixture', label: 'Offline Fixtures', description: 'Returns canned sample passports. Works with no API key, for demos and testing.' },
+  { id: 'mrz-text', label: 'MRZ Text', description: 'Parses typed or pasted MRZ lines locally.' },
+];
+
+export const DEFAULT_EXTRACTION_SETTINGS: ExtractionSettings = {
+  provider: process.env.API_KEY ? 'gemini' : 'fixture',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  geminiPrompt: DEFAULT_GEMINI_PROMPT,
+  concurrency: 3,
+  maxRetries: 3,
+};
+
+export function createExtractionProvider(settings: ExtractionSettings): ExtractionProvider {
+  switch (settings.provider) {
+    case 'fixture':
+      return createFixtureProvider();
+    case 'mrz-text':
+      return createMrzTextProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider({ model: settings.geminiModel, prompt: settings.geminiPrompt });
+  }
+}
+
+export function loadExtractionSettings(): ExtractionSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_EXTRACTION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_EXTRACTION_SETTINGS;
+  } catch {
+    return DEFAULT_EXTRACTION_SETTINGS;
+  }
+}
+
+export function saveExtractionSettings(settings: ExtractionSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractionError } from './errors';
+import { runQueue } from './extractionQueue';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// A worker whose calls finish only when the test says so
+function controlledWorker() {
+  const pending: { item: number; resolve: (value: string) => void; reject: (err: Error) => void }[] = [];
+  const worker = (item: number, signal: AbortSignal) => new Promise<string>((resolve, reject) => {
+    pending.push({ item, resolve, reject });
+    signal.addEventListener('abort', () => reject(new Error('aborted')), { once: true });
+  });
+  return { worker, pending };
+}
+
+describe('runQueue', () => {
+  it('keeps at most `concurrency` items in flight and reports each result', async () => {
+    const { worker, pending } = controlledWorker();
+    const results: [number, string][] = [];
+    const queue = runQueue([1, 2, 3], worker, { concurrency: 2, maxRetries: 0 }, {
+      onSuccess: (index, result) => results.push([index, result]),
+      onFailure: () => {},
+    });
+    await tick();
+    expect(pending.map(p => p.item)).toEqual([1, 2]);
+    pending[1].resolve('two');
+    await tick();
+    expect(pending.map(p => p.item)).toEqual([1, 2, 3]);
+    pending[0].resolve('one');
+    pending[2].resolve('three');
+    await queue.done;
+    expect(results).toEqual([[1, 'two'], [0, 'one'], [2, 'three']]);
+  });
+
+  it('retries transient errors and fails on the rest', async () => {
+    const calls: number[] = [];
+    const failures: [number, string][] = [];
+    const retries: number[] = [];
+    const queue = runQueue([0, 1], async item => {
+      calls.push(item);
+      if (item === 0 && calls.filter(c => c === 0).length < 3) throw new ExtractionError('busy', true);
+      if (item === 1) throw new ExtractionError('unreadable');
+      return 'ok';
+    }, { concurrency: 1, maxRetries: 2, baseDelayMs: 0 }, {
+      onSuccess: () => {},
+      onFailure: (index, err) => failures.push([index, err.message]),
+      onRetry: (_, attempt) => retries.push(attempt),
+    });
+    await queue.done;
+    expect(calls).toEqual([0, 0, 0, 1]);
+    expect(retries).toEqual([1, 2]);
+    expect(failures).toEqual([[1, 'unreadable']]);
+  });
+
+  it('gives up after maxRetries', async () => {
+    const failures: number[] = [];
+    const queue = runQueue([0], async () => { throw new TypeError('Failed to fetch'); }, { concurrency: 1, maxRetries: 1, baseDelayMs: 0 }, {
+      onSuccess: () => {},
+      onFailure: index => failures.push(index),
+    });
+    await queue.done;
+    expect(failures).toEqual([0]);
+  });
+
+  it('starts nothing new while paused', async () => {
+    const { worker, pending } = controlledWorker();
+    const queue = runQueue([1, 2], worker, { concurrency: 1, maxRetries: 0 }, { onSuccess: () => {}, onFailure: () => {} });
+    await tick();
+    queue.pause();
+    pending[0].resolve('one');
+    await tick();
+    expect(pending).toHaveLength(1);
+    expect(queue.isPaused()).toBe(true);
+    queue.resume();
+    await tick();
+    expect(pending).toHaveLength(2);
+    pending[1].resolve('two');
+    await queue.done;
+  });
+
+  it('cancels in-flight and waiting items', async () => {
+    const { worker } = controlledWorker();
+    const cancelled: number[] = [];
+    const queue = runQueue([1, 2, 3], worker, { concurrency: 1, maxRetries: 0 }, {
+      onSuccess: () => {},
+      onFailure: () => {},
+      onCancel: index => cancelled.push(index),
+    });
+    queue.cancel();
+    await queue.done;
+    expect(cancelled.sort()).toEqual([0, 1, 2]);
+    expect(queue.add([4])).toBe(false);
+  });
+
+  it('takes more items while running', async () => {
+    const { worker, pending } = controlledWorker();
+    const results: number[] = [];
+    const queue = runQueue([1], worker, { concurrency: 2, maxRetries: 0 }, { onSuccess: index => results.push(index), onFailure: () => {} });
+    expect(queue.add([2])).toBe(true);
+    await tick();
+    expect(pending.map(p => p.item)).toEqual([1, 2]);
+    pending.forEach(p => p.resolve('done'));
+    await queue.done;
+    expect(results.sort()).toEqual([0, 1]);
+  });
+
+  it('finishes straight away with nothing to do', async () => {
+    const queue = runQueue([], async () => 'never', { concurrency: 3, maxRetries: 0 }, { onSuccess: () => {}, onFailure: () => {} });
+    await queue.done;
+    expect(queue.add([1])).toBe(false);
+  });
+});
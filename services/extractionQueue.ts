@@ -0,0 +1,137 @@
+import { isTransientError } from './errors';
+
+export interface QueueOptions {
+  concurrency: number;
+  maxRetries: number;
+  baseDelayMs?: number;
+}
+
+export interface QueueHandlers<T> {
+  onSuccess: (index: number, result: T) => void;
+  onFailure: (index: number, error: Error) => void;
+  onRetry?: (index: number, attempt: number, delayMs: number, error: Error) => void;
+  onCancel?: (index: number) => void;
+}
+
+export interface QueueControls<I = unknown> {
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  isPaused: () => boolean;
+  // Queues more items behind the current ones. Returns false once the queue has finished or been
+  // cancelled, in which case the caller should start a new one.
+  add: (more: I[]) => boolean;
+  done: Promise<void>;
+}
+
+// Exponential backoff with a little jitter so parallel workers don't retry in lockstep
+export const backoffDelay = (attempt: number, baseDelayMs: number) =>
+  baseDelayMs * Math.pow(2, attempt) + Math.floor(Math.random() * 250);
+
+// Runs `worker` over every item with at most `concurrency` in flight. Pausing stops new items from
+// starting; cancelling aborts in-flight work and reports every unfinished item through onCancel.
+export function runQueue<I, T>(
+  items: I[],
+  worker: (item: I, signal: AbortSignal) => Promise<T>,
+  options: QueueOptions,
+  handlers: QueueHandlers<T>
+): QueueControls<I> {
+  const { concurrency, maxRetries, baseDelayMs = 1000 } = options;
+  // Our own copy, since add() grows it
+  const queue = [...items];
+  const controller = new AbortController();
+  let paused = false;
+  let cancelled = false;
+  let next = 0;
+  let active = 0;
+  let finished = false;
+  let resolveDone!: () => void;
+  const done = new Promise<void>(resolve => { resolveDone = resolve; });
+  let waiters: (() => void)[] = [];
+
+  const release = () => {
+    waiters.forEach(resolve => resolve());
+    waiters = [];
+  };
+
+  const waitIfPaused = () => paused && !cancelled ? new Promise<void>(resolve => waiters.push(resolve)) : Promise.resolve();
+
+  const sleep = (ms: number) => new Promise<void>(resolve => {
+    const timer = setTimeout(resolve, ms);
+    controller.signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+
+  const runItem = async (index: number) => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await worker(queue[index], controller.signal);
+        if (cancelled) handlers.onCancel?.(index);
+        else handlers.onSuccess(index, result);
+        return;
+      } catch (err) {
+        if (cancelled) {
+          handlers.onCancel?.(index);
+          return;
+        }
+        const error = err as Error;
+        if (attempt >= maxRetries || !isTransientError(error)) {
+          handlers.onFailure(index, error);
+          return;
+        }
+        const delay = backoffDelay(attempt, baseDelayMs);
+        handlers.onRetry?.(index, attempt + 1, delay, error);
+        await sleep(delay);
+        await waitIfPaused();
+        if (cancelled) {
+          handlers.onCancel?.(index);
+          return;
+        }
+      }
+    }
+  };
+
+  const finish = () => {
+    finished = true;
+    if (cancelled) {
+      for (let i = next; i < queue.length; i++) handlers.onCancel?.(i);
+    }
+    resolveDone();
+  };
+
+  const runWorker = async () => {
+    active++;
+    while (true) {
+      await waitIfPaused();
+      if (cancelled || next >= queue.length) break;
+      await runItem(next++);
+    }
+    if (--active === 0) finish();
+  };
+
+  // Tops the pool up to `concurrency` workers, or as many as there are items waiting
+  const startWorkers = () => {
+    const wanted = Math.min(Math.max(1, concurrency), queue.length - next + active);
+    for (let i = active; i < wanted; i++) runWorker();
+  };
+
+  startWorkers();
+  if (active === 0) finish();
+
+  return {
+    pause: () => { paused = true; },
+    resume: () => { paused = false; release(); },
+    cancel: () => {
+      cancelled = true;
+      controller.abort();
+      release();
+    },
+    isPaused: () => paused,
+    add: (more: I[]) => {
+      if (finished || cancelled) return false;
+      queue.push(...more);
+      startWorkers();
+      return true;
+    },
+    done,
+  };
+}
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { makePassport } from '../test/fixtures';
+import { FilterState } from '../types';
+import { applyFilters, EMPTY_FILTERS, filterChips, FilterContext, needsAttention } from './filterService';
+
+const list = [
+  makePassport('anna'),
+  makePassport('john', { firstName: 'JOHN', lastName: 'SMITH', gender: 'MALE', passportNumber: 'X 1234 567', nationality: 'PAKISTAN', expiryDate: '2027-01-31', passengerType: 'CHILD' }),
+  makePassport('failed', { firstName: '', lastName: '', status: 'error' }),
+];
+const ctx: FilterContext = {
+  validity: { anna: { status: 'valid', message: '' }, john: { status: 'expiring', message: '' } },
+  duplicates: {},
+  issues: {},
+};
+const ids = (filters: Partial<FilterState>, context = ctx) => applyFilters(list, { ...EMPTY_FILTERS, ...filters }, { key: null, order: 'asc' }, context).map(p => p.id);
+
+describe('applyFilters', () => {
+  it('searches names in either order and passport numbers without spaces', () => {
+    expect(ids({ search: 'smith john' })).toEqual(['john']);
+    expect(ids({ search: 'x1234' })).toEqual(['john']);
+    expect(ids({ search: 'anna nobody' })).toEqual([]);
+  });
+
+  it('combines criteria', () => {
+    expect(ids({ validity: 'expiring' })).toEqual(['john']);
+    expect(ids({ status: 'error' })).toEqual(['failed']);
+    expect(ids({ passengerType: 'ADULT' })).toEqual(['anna', 'failed']);
+    expect(ids({ nationality: 'pakistan', gender: 'MALE' })).toEqual(['john']);
+    expect(ids({ gender: 'MALE', passengerType: 'ADULT' })).toEqual([]);
+  });
+
+  it('filters a date field by an inclusive range', () => {
+    expect(ids({ field: 'expiryDate', startDate: '2027-01-01', endDate: '2027-01-31' })).toEqual(['john']);
+    expect(ids({ field: 'expiryDate', endDate: '2032-04-14' })).toEqual(['john']);
+    expect(ids({ field: 'expiryDate', endDate: '2032-04-15' })).toEqual(['anna', 'john', 'failed']);
+  });
+
+  it('finds duplicates and records that need attention', () => {
+    const withDuplicates = { ...ctx, duplicates: { anna: [{ id: 'x', score: 60, reasons: [] }] } };
+    expect(ids({ duplicatesOnly: true }, withDuplicates)).toEqual(['anna']);
+    expect(ids({ issuesOnly: true }, withDuplicates)).toEqual(['anna', 'failed']);
+  });
+
+  it('sorts dates chronologically', () => {
+    const sorted = applyFilters(list, EMPTY_FILTERS, { key: 'expiryDate', order: 'desc' }, ctx).map(p => p.id);
+    expect(sorted).toEqual(['anna', 'failed', 'john']);
+  });
+});
+
+describe('needsAttention', () => {
+  it('counts MRZ mismatches and blocking issues but not warnings', () => {
+    const mismatch = makePassport('m', { mrzCheck: { status: 'mismatch', issues: [] } });
+    expect(needsAttention(mismatch, ctx)).toBe(true);
+    const warning = { ...ctx, issues: { anna: [{ field: 'issueDate' as const, severity: 'warning' as const, message: '' }] } };
+    expect(needsAttention(list[0], warning)).toBe(false);
+  });
+});
+
+describe('filterChips', () => {
+  it('describes each active criterion and how to clear it', () => {
+    const chips = filterChips({ ...EMPTY_FILTERS, search: ' anna ', field: 'dateOfBirth', startDate: '1970-01-01' }, 'DD MMM YYYY');
+    expect(chips).toEqual([
+      { key: 'search', label: '"anna"', clear: { search: '' } },
+      { key: 'dates', label: 'Birth 01 JAN 1970 to …', clear: { startDate: '', endDate: '' } },
+    ]);
+  });
+});
@@ -0,0 +1,131 @@
+import { DuplicateMatch, ExportDateFormat, FilterState, FilterView, PassportData, SortConfig, ValidationIssue, ValidityResult } from '../types';
+import { compareDates, endOfDay, formatDate, isDateField, parseDate } from './dateService';
+import { VALIDITY_LABELS } from './validityService';
+import { createId } from './manifestService';
+
+const VIEWS_KEY = 'bestex.filterViews';
+
+export const EMPTY_FILTERS: FilterState = {
+  search: '',
+  field: 'expiryDate',
+  startDate: '',
+  endDate: '',
+  validity: 'all',
+  status: 'all',
+  passengerType: 'all',
+  nationality: '',
+  gender: '',
+  duplicatesOnly: false,
+  issuesOnly: false,
+};
+
+export const BUILT_IN_VIEWS: FilterView[] = [
+  { id: 'children', name: 'Children only', filters: { ...EMPTY_FILTERS, passengerType: 'CHILD' }, builtIn: true },
+  { id: 'attention', name: 'Needs attention', filters: { ...EMPTY_FILTERS, issuesOnly: true }, builtIn: true },
+];
+
+export function loadFilterViews(): FilterView[] {
+  try {
+    const stored: FilterView[] = JSON.parse(localStorage.getItem(VIEWS_KEY) || '[]');
+    // Views saved before a criterion existed pick up its default
+    return [...BUILT_IN_VIEWS, ...stored.filter(v => !v.builtIn).map(v => ({ ...v, filters: { ...EMPTY_FILTERS, ...v.filters } }))];
+  } catch {
+    return BUILT_IN_VIEWS;
+  }
+}
+
+export function saveFilterViews(views: FilterView[]) {
+  localStorage.setItem(VIEWS_KEY, JSON.stringify(views.filter(v => !v.builtIn)));
+}
+
+export const createFilterView = (name: string, filters: FilterState): FilterView => ({ id: createId(), name, filters });
+
+export interface FilterContext {
+  validity: Record<string, ValidityResult>;
+  duplicates: Record<string, DuplicateMatch[]>;
+  issues: Record<string, ValidationIssue[]>;
+}
+
+const DATE_FIELD_LABELS: Record<FilterState['field'], string> = {
+  expiryDate: 'Expiry',
+  issueDate: 'Issue',
+  dateOfBirth: 'Birth',
+};
+
+const normalise = (value?: string) => (value || '').toUpperCase().replace(/\s+/g, ' ').trim();
+
+export const needsAttention = (p: PassportData, ctx: FilterContext) =>
+  p.status === 'error'
+  || (!!p.mrzCheck && p.mrzCheck.status !== 'verified')
+  || !!ctx.duplicates[p.id]
+  || !!ctx.issues[p.id]?.some(i => i.severity === 'error');
+
+// Free text matches names in either order and passport numbers without their spaces
+function matchesSearch(p: PassportData, search: string): boolean {
+  const terms = normalise(search).split(' ').filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [p.firstName, p.lastName, p.passportNumber.replace(/\s/g, ''), p.fileName].map(normalise).join(' ');
+  return terms.every(term => haystack.includes(term));
+}
+
+export function matchesFilters(p: PassportData, filters: FilterState, ctx: FilterContext): boolean {
+  if (!matchesSearch(p, filters.search)) return false;
+  if (filters.validity !== 'all' && ctx.validity[p.id]?.status !== filters.validity) return false;
+  if (filters.status !== 'all' && p.status !== filters.status) return false;
+  if (filters.passengerType !== 'all' && (p.passengerType || 'ADULT') !== filters.passengerType) return false;
+  if (filters.nationality && normalise(p.nationality) !== normalise(filters.nationality)) return false;
+  if (filters.gender && normalise(p.gender) !== filters.gender) return false;
+  if (filters.duplicatesOnly && !ctx.duplicates[p.id]) return false;
+  if (filters.issuesOnly && !needsAttention(p, ctx)) return false;
+  if (filters.startDate || filters.endDate) {
+    const date = parseDate(p[filters.field]);
+    if (!date) return false;
+    const start = parseDate(filters.startDate);
+    const end = parseDate(filters.endDate);
+    if (start && date < start) return false;
+    if (end && date > endOfDay(end)) return false;
+  }
+  return true;
+}
+
+export function sortPassports(list: PassportData[], sortConfig: SortConfig): PassportData[] {
+  if (!sortConfig.key) return list;
+  const key = sortConfig.key;
+  const direction = sortConfig.order === 'asc' ? 1 : -1;
+  // Dates compare chronologically whatever way they were written
+  if (isDateField(key)) return [...list].sort((a, b) => direction * compareDates(a[key], b[key]));
+  return [...list].sort((a, b) => {
+    const valA = String(a[key] || '').toUpperCase();
+    const valB = String(b[key] || '').toUpperCase();
+    return valA < valB ? -direction : valA > valB ? direction : 0;
+  });
+}
+
+// The one pipeline behind both the card list and the table
+export function applyFilters(list: PassportData[], filters: FilterState, sortConfig: SortConfig, ctx: FilterContext): PassportData[] {
+  return sortPassports(list.filter(p => matchesFilters(p, filters, ctx)), sortConfig);
+}
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  clear: Partial<FilterState>;
+}
+
+// One removable chip per active criterion
+export function filterChips(filters: FilterState, dateFormat?: ExportDateFormat): FilterChip[] {
+  const chips: FilterChip[] = [];
+  if (filters.search.trim()) chips.push({ key: 'search', label: `"${filters.search.trim()}"`, clear: { search: '' } });
+  if (filters.validity !== 'all') chips.push({ key: 'validity', label: VALIDITY_LABELS[filters.validity], clear: { validity: 'all' } });
+  if (filters.status !== 'all') chips.push({ key: 'status', label: `Status: ${filters.status}`, clear: { status: 'all' } });
+  if (filters.passengerType !== 'all') chips.push({ key: 'passengerType', label: filters.passengerType, clear: { passengerType: 'all' } });
+  if (filters.nationality) chips.push({ key: 'nationality', label: filters.nationality, clear: { nationality: '' } });
+  if (filters.gender) chips.push({ key: 'gender', label: filters.gender, clear: { gender: '' } });
+  if (filters.duplicatesOnly) chips.push({ key: 'duplicatesOnly', label: 'Duplicates', clear: { duplicatesOnly: false } });
+  if (filters.issuesOnly) chips.push({ key: 'issuesOnly', label: 'Needs attention', clear: { issuesOnly: false } });
+  if (filters.startDate || filters.endDate) {
+    const range = [formatDate(filters.startDate, dateFormat) || '…', formatDate(filters.endDate, dateFormat) || '…'].join(' to ');
+    chips.push({ key: 'dates', label: `${DATE_FIELD_LABELS[filters.field]} ${range}`, clear: { startDate: '', endDate: '' } });
+  }
+  return chips;
+}
@@ -0,0 +1,89 @@
+import { ExtractionProvider, PassportData } from '../types';
+import { ExtractionError } from './errors';
+
+export interface FixtureProviderConfig {
+  // Keyed by file name or by the lowercase hex SHA-256 of the file contents
+  fixtures: Record<string, Partial<PassportData>>;
+  // When nothing matches: 'cycle' picks a sample by hash so the same file always gets the same record
+  fallback: 'cycle' | 'error';
+  delayMs: number;
+}
+
+export const SAMPLE_FIXTURES: Partial<PassportData>[] = [
+  {
+    title: 'MR',
+    firstName: 'FAISAL',
+    lastName: 'PULIKKUTH',
+    passportNumber: 'U9628867',
+    nationality: 'INDIA',
+    gender: 'MALE',
+    dateOfBirth: '12/01/1985',
+    issueDate: '11/03/2020',
+    expiryDate: '10/03/2030',
+    mrz: 'P<INDPULIKKUTH<<FAISAL<<<<<<<<<<<<<<<<<<<<<<\nU9628867<2IND8501123M3003105<<<<<<<<<<<<<<<0',
+  },
+  {
+    title: 'MRS',
+    firstName: 'AYISHA',
+    lastName: 'RAHMAN',
+    passportNumber: 'T4419025',
+    nationality: 'INDIA',
+    gender: 'FEMALE',
+    dateOfBirth: '04/07/1992',
+    issueDate: '22/02/2022',
+    expiryDate: '21/02/2032',
+    mrz: 'P<INDRAHMAN<<AYISHA<<<<<<<<<<<<<<<<<<<<<<<<<\nT4419025<2IND9207042F3202218<<<<<<<<<<<<<<<4',
+  },
+  {
+    firstName: 'ZAYAN',
+    lastName: 'RAHMAN',
+    passportNumber: 'Z7738104',
+    nationality: 'INDIA',
+    gender: 'MALE',
+    dateOfBirth: '15/09/2019',
+    issueDate: '15/05/2024',
+    expiryDate: '14/05/2029',
+    mrz: 'P<INDRAHMAN<<ZAYAN<<<<<<<<<<<<<<<<<<<<<<<<<<\nZ7738104<1IND1909155M2905143<<<<<<<<<<<<<<<0',
+  },
+  {
+    firstName: 'INAYA',
+    lastName: 'RAHMAN',
+    passportNumber: 'Z8823611',
+    nationality: 'INDIA',
+    gender: 'FEMALE',
+    dateOfBirth: '02/04/2025',
+    issueDate: '02/05/2025',
+    expiryDate: '01/04/2030',
+    mrz: 'P<INDRAHMAN<<INAYA<<<<<<<<<<<<<<<<<<<<<<<<<<\nZ8823611<6IND2504029F3004010<<<<<<<<<<<<<<<2',
+  },
+];
+
+export async function hashFile(file: File): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function createFixtureProvider(config: Partial<FixtureProviderConfig> = {}): ExtractionProvider {
+  const { fixtures = {}, fallback = 'cycle', delayMs = 400 } = config;
+
+  return {
+    id: 'fixture',
+    label: 'Offline fixtures (demo)',
+    extract: async (processed: File, _signal?: AbortSignal, original?: File): Promise<Partial<PassportData>> => {
+      // Keep a small delay so the progress panel behaves like a real scan
+      if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs));
+
+      // Fixtures are keyed by the uploaded file, not the re-encoded copy preprocessing hands over
+      const file = original || processed;
+      if (fixtures[file.name]) return { ...fixtures[file.name] };
+      const hash = await hashFile(file);
+      if (fixtures[hash]) return { ...fixtures[hash] };
+
+      if (fallback === 'error') {
+        throw new ExtractionError(`No fixture found for ${file.name}`);
+      }
+      const index = parseInt(hash.slice(0, 8), 16) % SAMPLE_FIXTURES.length;
+      return { ...SAMPLE_FIXTURES[index] };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { makePassport } from '../test/fixtures';
+import { assignPaxNumbers, buildDocsLine, buildDocsLines, carrierCode, toGdsDate } from './gdsService';
+
+describe('toGdsDate', () => {
+  it('writes DDMMMYY and rejects what it cannot read', () => {
+    expect(toGdsDate('1985-01-12')).toBe('12JAN85');
+    expect(toGdsDate('soon')).toBeNull();
+    expect(toGdsDate(undefined)).toBeNull();
+  });
+});
+
+describe('assignPaxNumbers', () => {
+  it('attaches each infant to the next adult without one', () => {
+    const list = [
+      makePassport('adult1'),
+      makePassport('child', { passengerType: 'CHILD' }),
+      makePassport('infant1', { passengerType: 'INFANT' }),
+      makePassport('adult2', { passengerType: 'ADULT' }),
+      makePassport('infant2', { passengerType: 'INFANT' }),
+      makePassport('infant3', { passengerType: 'INFANT' }),
+    ];
+    expect(assignPaxNumbers(list)).toEqual({ adult1: 1, child: 2, adult2: 3, infant1: 1, infant2: 3, infant3: 0 });
+  });
+});
+
+describe('buildDocsLine', () => {
+  it('builds the SSR DOCS line', () => {
+    const line = buildDocsLine(makePassport('a', { firstName: 'ANNA-MARIA', nationality: 'Pakistani' }), 2, 'SV');
+    expect(line.text).toBe('SR DOCS SV HK1-P-PAK-L898902C3-PAK-12AUG74-F-15APR32-ERIKSSON-ANNA MARIA/P2');
+    expect(line.errors).toEqual([]);
+  });
+
+  it('marks infants and lists what is missing', () => {
+    const line = buildDocsLine(makePassport('i', { passengerType: 'INFANT', gender: '', nationality: 'NARNIA', passportNumber: '' }), 0);
+    expect(line.text).toBe('SR DOCS YY HK1-P----12AUG74-I-15APR32-ERIKSSON-ANNA MARIA/P?');
+    expect(line.errors).toEqual([
+      'Passport number is missing',
+      'Unknown country "NARNIA"',
+      'Gender is missing',
+      'No adult left to attach this infant to',
+    ]);
+  });
+});
+
+describe('buildDocsLines', () => {
+  it('covers completed records only, numbered among themselves', () => {
+    const lines = buildDocsLines([makePassport('a', { status: 'error' }), makePassport('b')]);
+    expect(lines.map(l => [l.id, l.paxNumber])).toEqual([['b', 1]]);
+  });
+});
+
+describe('carrierCode', () => {
+  it('uses a two-letter designator or YY', () => {
+    expect(carrierCode(' sv ')).toBe('SV');
+    expect(carrierCode('Saudia')).toBe('YY');
+    expect(carrierCode(undefined)).toBe('YY');
+  });
+});
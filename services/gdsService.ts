@@ -0,0 +1,73 @@
+import { PassportData } from '../types';
+import { formatDate, parseDate } from './dateService';
+import { toAlpha3 } from './countryCodes';
+
+export interface DocsLine {
+  id: string;
+  paxNumber: number;
+  text: string;
+  errors: string[];
+}
+
+// The GDS DDMMMYY form, e.g. 1985-01-12 -> 12JAN85
+export const toGdsDate = (value?: string): string | null => parseDate(value) ? formatDate(value, 'DDMMMYY') : null;
+
+// Hyphens and slashes are DOCS separators, so names keep letters and single spaces only
+const gdsName = (value?: string) => (value || '').toUpperCase().replace(/[^A-Z ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+// Infants travel on an adult's lap and share their passenger number, so each infant is attached
+// to the next adult that doesn't already have one. Everyone else gets their own number in list order.
+export function assignPaxNumbers(passports: PassportData[]): Record<string, number> {
+  const numbers: Record<string, number> = {};
+  const adults: number[] = [];
+  let next = 1;
+  passports.forEach(p => {
+    if (p.passengerType === 'INFANT') return;
+    numbers[p.id] = next;
+    if (p.passengerType !== 'CHILD') adults.push(next);
+    next++;
+  });
+  passports.forEach(p => {
+    if (p.passengerType !== 'INFANT') return;
+    numbers[p.id] = adults.length > 0 ? adults.shift()! : 0;
+  });
+  return numbers;
+}
+
+export function buildDocsLine(p: PassportData, paxNumber: number, carrier = 'YY'): DocsLine {
+  const errors: string[] = [];
+  const nationality = toAlpha3(p.nationality);
+  const dob = toGdsDate(p.dateOfBirth);
+  const expiry = toGdsDate(p.expiryDate);
+  const gender = (p.gender || '').toUpperCase() === 'MALE' ? 'M' : (p.gender || '').toUpperCase() === 'FEMALE' ? 'F' : '';
+  const number = (p.passportNumber || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  const surname = gdsName(p.lastName);
+  const given = gdsName(p.firstName);
+
+  if (!number) errors.push('Passport number is missing');
+  if (!nationality) errors.push(`Unknown country "${p.nationality || ''}"`);
+  if (!dob) errors.push('Date of birth is not a valid date');
+  if (!gender) errors.push('Gender is missing');
+  if (!expiry) errors.push('Expiry date is not a valid date');
+  if (!surname) errors.push('Last name is missing');
+  if (!paxNumber) errors.push('No adult left to attach this infant to');
+
+  const infant = p.passengerType === 'INFANT' ? 'I' : '';
+  // Issuing country is taken to be the nationality; we don't capture it separately
+  const fields = ['P', nationality || '', number, nationality || '', dob || '', `${gender}${infant}`, expiry || '', surname, given];
+  const text = `SR DOCS ${carrier} HK1-${fields.join('-')}/P${paxNumber || '?'}`;
+  return { id: p.id, paxNumber, text, errors };
+}
+
+// DOCS lines for every completed record, in the order given
+export function buildDocsLines(passports: PassportData[], carrier = 'YY'): DocsLine[] {
+  const completed = passports.filter(p => p.status === 'completed');
+  const numbers = assignPaxNumbers(completed);
+  return completed.map(p => buildDocsLine(p, numbers[p.id], carrier));
+}
+
+// Two-letter airline designator from the manifest's airline field, or YY (all carriers)
+export function carrierCode(airline?: string): string {
+  const code = (airline || '').trim().toUpperCase();
+  return /^[A-Z0-9]{2}$/.test(code) ? code : 'YY';
+}
@@ -1,10 +1,20 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { PassportData } from "../types";
+import { ApiError, GoogleGenAI, Type } from "@google/genai";
+import { ExtractionProvider, PassportData } from "../types";
+import { ExtractionError } from "./errors";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const DEFAULT_GEMINI_MODEL = "gemini-3-flash-preview";
 
-const PASSPORT_SCHEMA = {
+export const DEFAULT_GEMINI_PROMPT = `Extract passport details from this image for BESTEX TOURS AND TRAVELS. 
+MANDATORY: 
+1. Prioritize the Machine Readable Zone (MRZ) at the bottom for Passport Number and Name.
+2. Determine the Title (MR, MS, MRS) based on Gender and Names.
+3. Extract Gender (MALE/FEMALE).
+4. Extract all dates (DOB, Issue Date, Expiry Date) and format them as DD/MM/YYYY.
+5. Ensure names and nationality are in ALL CAPS.
+6. Copy the MRZ lines verbatim, character for character, without correcting them.`;
+
+export const PASSPORT_SCHEMA = {
   type: Type.OBJECT,
   properties: {
     title: {
@@ -42,60 +52,88 @@ const PASSPORT_SCHEMA = {
     expiryDate: {
       type: Type.STRING,
       description: "Passport expiry date in DD/MM/YYYY format",
+    },
+    mrz: {
+      type: Type.STRING,
+      description: "The Machine Readable Zone exactly as printed, one line per row, keeping every '<' filler character",
     }
   },
   required: ["firstName", "lastName", "passportNumber"],
-  propertyOrdering: ["title", "firstName", "lastName", "passportNumber", "nationality", "gender", "dateOfBirth", "issueDate", "expiryDate"],
+  propertyOrdering: ["title", "firstName", "lastName", "passportNumber", "nationality", "gender", "dateOfBirth", "issueDate", "expiryDate", "mrz"],
+};
+
+// Rate limits, server errors and dropped connections are worth retrying; bad images are not
+const isRetryable = (error: unknown) => {
+  if (error instanceof ApiError) return error.status === 429 || error.status >= 500;
+  return error instanceof TypeError;
 };
 
-export async function extractPassportDetails(file: File): Promise<Partial<PassportData>> {
-  const base64Data = await fileToBase64(file);
-  const mimeType = file.type || 'image/jpeg';
+export interface GeminiProviderConfig {
+  apiKey?: string;
+  model: string;
+  prompt: string;
+  schema: object;
+}
+
+export function createGeminiProvider(config: Partial<GeminiProviderConfig> = {}): ExtractionProvider {
+  const { apiKey = process.env.API_KEY, model = DEFAULT_GEMINI_MODEL, prompt = DEFAULT_GEMINI_PROMPT, schema = PASSPORT_SCHEMA } = config;
+  // Created on first use so the app can start without an API key when another provider is selected
+  let ai: GoogleGenAI | null = null;
+
+  return {
+    id: "gemini",
+    label: `Gemini (${model})`,
+    extract: async (file: File, signal?: AbortSignal): Promise<Partial<PassportData>> => {
+      if (!apiKey) {
+        throw new ExtractionError("No Gemini API key configured. Choose another extraction provider in Setup.");
+      }
+      ai = ai || new GoogleGenAI({ apiKey });
+      const base64Data = await fileToBase64(file);
+      const mimeType = file.type || 'image/jpeg';
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: {
-        parts: [
-          { 
-            text: `Extract passport details from this image for BESTEX TOURS AND TRAVELS. 
-            MANDATORY: 
-            1. Prioritize the Machine Readable Zone (MRZ) at the bottom for Passport Number and Name.
-            2. Determine the Title (MR, MS, MRS) based on Gender and Names.
-            3. Extract Gender (MALE/FEMALE).
-            4. Extract all dates (DOB, Issue Date, Expiry Date) and format them as DD/MM/YYYY.
-            5. Ensure names and nationality are in ALL CAPS.` 
+      try {
+        const response = await ai.models.generateContent({
+          model,
+          contents: {
+            parts: [
+              { text: prompt },
+              {
+                inlineData: {
+                  data: base64Data,
+                  mimeType: mimeType,
+                },
+              },
+            ],
           },
-          {
-            inlineData: {
-              data: base64Data,
-              mimeType: mimeType,
-            },
+          config: {
+            responseMimeType: "application/json",
+            responseSchema: schema,
+            abortSignal: signal,
           },
-        ],
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: PASSPORT_SCHEMA,
-      },
-    });
+        });
 
-    const result = JSON.parse(response.text || "{}");
-    return {
-      title: result.title?.toUpperCase(),
-      firstName: result.firstName?.toUpperCase(),
-      lastName: result.lastName?.toUpperCase(),
-      passportNumber: result.passportNumber?.toUpperCase(),
-      nationality: result.nationality?.toUpperCase(),
-      gender: result.gender?.toUpperCase(),
-      dateOfBirth: result.dateOfBirth,
-      issueDate: result.issueDate,
-      expiryDate: result.expiryDate,
-    };
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    throw new Error("Unable to read passport. Improve image quality and re-upload.");
-  }
+        const result = JSON.parse(response.text || "{}");
+        return {
+          title: result.title?.toUpperCase(),
+          firstName: result.firstName?.toUpperCase(),
+          lastName: result.lastName?.toUpperCase(),
+          passportNumber: result.passportNumber?.toUpperCase(),
+          nationality: result.nationality?.toUpperCase(),
+          gender: result.gender?.toUpperCase(),
+          dateOfBirth: result.dateOfBirth,
+          issueDate: result.issueDate,
+          expiryDate: result.expiryDate,
+          mrz: result.mrz?.toUpperCase(),
+        };
+      } catch (error) {
+        console.error("Gemini Error:", error);
+        if (isRetryable(error)) {
+          throw new ExtractionError("Gemini is busy or unreachable. Retry the scan shortly.", true);
+        }
+        throw new ExtractionError("Unable to read passport. Improve image quality and re-upload.");
+      }
+    },
+  };
 }
 
 function fileToBase64(file: File): Promise<string> {
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { makePassport } from '../test/fixtures';
+import { PassportData } from '../types';
+import { commitHistory, emptyHistory, jumpTo, redoHistory, undoHistory } from './historyService';
+
+const edit = (list: PassportData[], id: string, fields: Partial<PassportData>) =>
+  list.map(p => (p.id === id ? { ...p, ...fields } : p));
+
+const ids = (list: PassportData[]) => list.map(p => p.id);
+
+describe('commitHistory', () => {
+  it('records one entry per change and ignores no-ops', () => {
+    const start = [makePassport('a'), makePassport('b')];
+    let state = emptyHistory(start);
+    state = commitHistory(state, start, 'Nothing');
+    expect(state.entries).toHaveLength(0);
+    state = commitHistory(state, edit(start, 'a', { firstName: 'ANNA' }), 'Edit');
+    expect(state.entries).toHaveLength(1);
+    expect(state.entries[0].changes.map(c => c.id)).toEqual(['a']);
+  });
+
+  it('merges consecutive edits with the same key', () => {
+    let state = emptyHistory([makePassport('a')]);
+    state = commitHistory(state, edit(state.present, 'a', { firstName: 'A' }), 'Edit', 'a:firstName');
+    state = commitHistory(state, edit(state.present, 'a', { firstName: 'AN' }), 'Edit', 'a:firstName');
+    expect(state.entries).toHaveLength(1);
+    state = undoHistory(state);
+    expect(state.present[0].firstName).toBe('ANNA MARIA');
+  });
+
+  it('drops the entry when a value is typed back to what it was', () => {
+    let state = emptyHistory([makePassport('a')]);
+    state = commitHistory(state, edit(state.present, 'a', { firstName: 'X' }), 'Edit', 'a:firstName');
+    state = commitHistory(state, edit(state.present, 'a', { firstName: 'ANNA MARIA' }), 'Edit', 'a:firstName');
+    expect(state.entries).toHaveLength(0);
+    expect(state.cursor).toBe(0);
+  });
+
+  it('throws away the redo branch on a new change', () => {
+    let state = emptyHistory([makePassport('a')]);
+    state = commitHistory(state, edit(state.present, 'a', { firstName: 'X' }), 'Edit');
+    state = undoHistory(state);
+    state = commitHistory(state, edit(state.present, 'a', { lastName: 'Y' }), 'Edit');
+    expect(state.entries).toHaveLength(1);
+    expect(redoHistory(state)).toBe(state);
+  });
+});
+
+describe('undo and redo', () => {
+  it('brings a deleted record back where it was', () => {
+    let state = emptyHistory([makePassport('a'), makePassport('b'), makePassport('c')]);
+    state = commitHistory(state, state.present.filter(p => p.id !== 'b'), 'Delete');
+    expect(ids(state.present)).toEqual(['a', 'c']);
+    state = undoHistory(state);
+    expect(ids(state.present)).toEqual(['a', 'b', 'c']);
+    state = redoHistory(state);
+    expect(ids(state.present)).toEqual(['a', 'c']);
+  });
+
+  it('removes an added record on undo and keeps rows added outside the history', () => {
+    let state = emptyHistory([makePassport('a')]);
+    state = commitHistory(state, [...state.present, makePassport('b')], 'Add');
+    // A scan still in progress, added without a history entry
+    state = { ...state, present: [...state.present, makePassport('scan', { status: 'processing' })] };
+    state = undoHistory(state);
+    expect(ids(state.present)).toEqual(['a', 'scan']);
+  });
+
+  it('only puts back the fields an entry changed', () => {
+    let state = emptyHistory([makePassport('a')]);
+    state = commitHistory(state, edit(state.present, 'a', { firstName: 'ANNA' }), 'Edit');
+    // A re-scan marks the record outside the history
+    state = { ...state, present: edit(state.present, 'a', { status: 'processing' }) };
+    state = undoHistory(state);
+    expect(state.present[0]).toMatchObject({ firstName: 'ANNA MARIA', status: 'processing' });
+    state = redoHistory(state);
+    expect(state.present[0]).toMatchObject({ firstName: 'ANNA', status: 'processing' });
+  });
+
+  it('jumps across several entries at once', () => {
+    let state = emptyHistory([makePassport('a')]);
+    state = commitHistory(state, edit(state.present, 'a', { firstName: '1' }), 'One');
+    state = commitHistory(state, edit(state.present, 'a', { firstName: '2' }), 'Two');
+    state = commitHistory(state, edit(state.present, 'a', { firstName: '3' }), 'Three');
+    expect(jumpTo(state, 0).present[0].firstName).toBe('ANNA MARIA');
+    expect(jumpTo(jumpTo(state, 0), 2).present[0].firstName).toBe('2');
+    expect(jumpTo(state, 99).cursor).toBe(3);
+  });
+});
@@ -0,0 +1,151 @@
+import { PassportData } from '../types';
+import { createId } from './manifestService';
+
+// One record's part in a change. `before` is null for a record that was added and `after` is null
+// for one that was removed; `index` and `prevId` say where the record sits in the list it exists in.
+export interface RecordChange {
+  id: string;
+  before: PassportData | null;
+  after: PassportData | null;
+  index: number;
+  prevId: string | null;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  at: number;
+  changes: RecordChange[];
+  // Consecutive entries with the same key collapse into one, e.g. typing into a single field
+  mergeKey?: string;
+}
+
+export interface HistoryState {
+  present: PassportData[];
+  entries: HistoryEntry[];
+  // Number of entries applied to `present`; the ones after it can be redone
+  cursor: number;
+}
+
+const MAX_ENTRIES = 200;
+
+export const emptyHistory = (present: PassportData[] = []): HistoryState => ({ present, entries: [], cursor: 0 });
+
+// "passportNumber" -> "PASSPORT NUMBER"
+export const fieldLabel = (field: keyof PassportData) => String(field).replace(/([A-Z])/g, ' $1').toUpperCase();
+
+export const recordLabel = (p?: PassportData) => (p && (p.lastName || p.firstName || p.fileName)) || 'passenger';
+
+// Records are replaced rather than mutated, so an unchanged record is the same object in both lists
+export function diffRecords(prev: PassportData[], next: PassportData[]): RecordChange[] {
+  const prevById = new Map(prev.map(p => [p.id, p]));
+  const nextIds = new Set(next.map(p => p.id));
+  const changes: RecordChange[] = [];
+  prev.forEach((p, index) => {
+    if (!nextIds.has(p.id)) changes.push({ id: p.id, before: p, after: null, index, prevId: prev[index - 1]?.id ?? null });
+  });
+  next.forEach((p, index) => {
+    const before = prevById.get(p.id);
+    if (before !== p) changes.push({ id: p.id, before: before || null, after: p, index, prevId: next[index - 1]?.id ?? null });
+  });
+  return changes;
+}
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// The fields a change actually touched
+function changedFields(change: RecordChange): (keyof PassportData)[] {
+  const { before, after } = change;
+  if (!before || !after) return [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof PassportData)[]);
+  return [...keys].filter(key => !sameValue(before[key], after[key]));
+}
+
+// Puts back only the fields the change touched, so anything changed outside the history since
+// (a re-scan marking the record as processing, say) is left as it is now
+function patchRecord(current: PassportData, change: RecordChange, side: 'before' | 'after'): PassportData {
+  const target = change[side]!;
+  const fields = changedFields(change).filter(key => !sameValue(current[key], target[key]));
+  if (fields.length === 0) return current;
+  const patched = { ...current };
+  fields.forEach(key => Object.assign(patched, { [key]: target[key] }));
+  return patched;
+}
+
+// Applies one side of a patch. Records the patch doesn't mention are left alone, so rows added
+// outside the history (scans still in progress) survive undo and redo. Records coming back are put
+// after the neighbour they had, falling back to their old position.
+function applyChanges(list: PassportData[], changes: RecordChange[], side: 'before' | 'after'): PassportData[] {
+  const byId = new Map(changes.map(c => [c.id, c]));
+  const result = list
+    .filter(p => !byId.has(p.id) || byId.get(p.id)![side] !== null)
+    .map(p => {
+      const change = byId.get(p.id);
+      if (!change) return p;
+      // A record this change added or removed comes back whole; an edited one only gets its edited fields
+      return change.before && change.after ? patchRecord(p, change, side) : change[side]!;
+    });
+  const present = new Set(result.map(p => p.id));
+  changes
+    .filter(c => c[side] && !present.has(c.id))
+    .sort((a, b) => a.index - b.index)
+    .forEach(c => {
+      const anchor = c.prevId === null ? -1 : result.findIndex(p => p.id === c.prevId);
+      const at = c.prevId === null ? 0 : anchor >= 0 ? anchor + 1 : Math.min(c.index, result.length);
+      result.splice(at, 0, c[side]!);
+    });
+  return result;
+}
+
+// Folds a later patch into an earlier one, keeping the earliest `before` of each record
+function mergeChanges(earlier: RecordChange[], later: RecordChange[]): RecordChange[] {
+  const merged = earlier.map(c => ({ ...c }));
+  later.forEach(c => {
+    const existing = merged.find(m => m.id === c.id);
+    if (!existing) {
+      merged.push(c);
+    } else {
+      existing.after = c.after;
+      if (c.after) {
+        existing.index = c.index;
+        existing.prevId = c.prevId;
+      }
+    }
+  });
+  // A record edited back to how it started has nothing left to undo
+  return merged.filter(c => c.before !== c.after && !(c.before && c.after && changedFields(c).length === 0));
+}
+
+export function commitHistory(state: HistoryState, next: PassportData[], label: string, mergeKey?: string): HistoryState {
+  if (next === state.present) return state;
+  const changes = diffRecords(state.present, next);
+  if (changes.length === 0) return { ...state, present: next };
+
+  const entries = state.entries.slice(0, state.cursor);
+  const top = entries[entries.length - 1];
+  if (mergeKey && top?.mergeKey === mergeKey) {
+    const merged = mergeChanges(top.changes, changes);
+    // Typing a value back to what it was leaves nothing to undo
+    if (merged.length === 0) entries.pop();
+    else entries[entries.length - 1] = { ...top, at: Date.now(), changes: merged };
+    return { present: next, entries, cursor: entries.length };
+  }
+
+  entries.push({ id: createId(), label, at: Date.now(), changes, mergeKey });
+  const trimmed = entries.slice(-MAX_ENTRIES);
+  return { present: next, entries: trimmed, cursor: trimmed.length };
+}
+
+// Moves to any point in the list by undoing or redoing the entries in between
+export function jumpTo(state: HistoryState, cursor: number): HistoryState {
+  const target = Math.max(0, Math.min(cursor, state.entries.length));
+  if (target === state.cursor) return state;
+  let present = state.present;
+  for (let i = state.cursor - 1; i >= target; i--) present = applyChanges(present, state.entries[i].changes, 'before');
+  for (let i = state.cursor; i < target; i++) present = applyChanges(present, state.entries[i].changes, 'after');
+  return { ...state, present, cursor: target };
+}
+
+export const undoHistory = (state: HistoryState) => jumpTo(state, state.cursor - 1);
+
+export const redoHistory = (state: HistoryState) => jumpTo(state, state.cursor + 1);
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { normaliseValue, parseClipboardTable, toClipboardTable } from './importService';
+
+describe('parseClipboardTable', () => {
+  it('splits tab-separated rows and ignores the trailing line break', () => {
+    expect(parseClipboardTable('ANNA\tERIKSSON\nJOHN\tSMITH\n')).toEqual([['ANNA', 'ERIKSSON'], ['JOHN', 'SMITH']]);
+  });
+
+  it('handles Windows line breaks and empty cells', () => {
+    expect(parseClipboardTable('A\t\tC\r\n\tB\t\r\n')).toEqual([['A', '', 'C'], ['', 'B', '']]);
+  });
+
+  it('reads quoted cells holding tabs, line breaks and quotes', () => {
+    expect(parseClipboardTable('"a\tb"\t"line 1\nline 2"\t"say ""hi"""')).toEqual([['a\tb', 'line 1\nline 2', 'say "hi"']]);
+  });
+
+  it('reads a single cell', () => {
+    expect(parseClipboardTable('L898902C3')).toEqual([['L898902C3']]);
+  });
+});
+
+describe('toClipboardTable', () => {
+  it('round-trips through parseClipboardTable', () => {
+    const rows = [['ANNA', 'a\tb', 'say "hi"'], ['', 'line 1\nline 2', 'X']];
+    expect(parseClipboardTable(toClipboardTable(rows))).toEqual(rows);
+  });
+});
+
+describe('normaliseValue', () => {
+  it('tidies pasted values per field', () => {
+    expect(normaliseValue('gender', 'f')).toBe('FEMALE');
+    expect(normaliseValue('passengerType', 'chd')).toBe('CHILD');
+    expect(normaliseValue('title', 'Mrs.')).toBe('MRS');
+    expect(normaliseValue('passportNumber', 'l898 902c3')).toBe('L898902C3');
+  });
+
+  it('reads pasted dates in the on-screen format', () => {
+    expect(normaliseValue('dateOfBirth', '03/12/1990')).toBe('1990-12-03');
+    expect(normaliseValue('dateOfBirth', '03/12/1990', 'MM/DD/YYYY')).toBe('1990-03-12');
+    expect(normaliseValue('expiryDate', '12MAR30')).toBe('2030-03-12');
+  });
+});
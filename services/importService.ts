@@ -0,0 +1,154 @@
+import { ExportDateFormat, PassportData } from '../types';
+import { Century, centuryFor, normaliseDate, toIsoDate } from './dateService';
+
+declare const XLSX: any;
+
+export type ImportField = 'passengerType' | 'title' | 'firstName' | 'lastName' | 'gender' | 'passportNumber' | 'nationality' | 'dateOfBirth' | 'issueDate' | 'expiryDate';
+
+export type ImportCell = string | number;
+
+// The first alias of each field is the header our own Excel export writes
+export const IMPORT_FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'passengerType', label: 'Type', aliases: ['TYPE', 'PAX TYPE', 'PASSENGER TYPE', 'PTC'] },
+  { field: 'title', label: 'Title', aliases: ['TITLE', 'SALUTATION', 'PREFIX'] },
+  { field: 'firstName', label: 'First Name', aliases: ['FIRST NAME', 'FIRSTNAME', 'GIVEN NAME', 'GIVEN NAMES', 'FORENAME'] },
+  { field: 'lastName', label: 'Last Name', aliases: ['LAST NAME', 'LASTNAME', 'SURNAME', 'FAMILY NAME'] },
+  { field: 'gender', label: 'Gender', aliases: ['GENDER', 'SEX'] },
+  { field: 'passportNumber', label: 'Passport No.', aliases: ['PASSPORT NUMBER', 'PASSPORT NO', 'PASSPORT', 'PPT NO', 'DOCUMENT NUMBER'] },
+  { field: 'nationality', label: 'Country', aliases: ['COUNTRY', 'NATIONALITY', 'CITIZENSHIP'] },
+  { field: 'dateOfBirth', label: 'Date of Birth', aliases: ['DATE OF BIRTH', 'DOB', 'BIRTH DATE'] },
+  { field: 'issueDate', label: 'Date of Issue', aliases: ['DATE OF ISSUE', 'ISSUE DATE', 'DOI'] },
+  { field: 'expiryDate', label: 'Date of Expiry', aliases: ['DATE OF EXPIRE', 'DATE OF EXPIRY', 'EXPIRY DATE', 'EXPIRY', 'DOE', 'VALID UNTIL'] },
+];
+
+const DATE_FIELDS: ImportField[] = ['dateOfBirth', 'issueDate', 'expiryDate'];
+
+const normaliseHeader = (value: ImportCell) => String(value).toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+
+// Reads the first sheet as rows of cells. CSV is read as plain text so "01/02/1990" is never guessed as a US date;
+// XLSX date cells come back as Excel serial numbers and are converted per column later.
+export async function readSpreadsheet(file: File): Promise<ImportCell[][]> {
+  const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: 'string', raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: 'array' });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  // Keep blank rows so row numbers in the preview match the sheet
+  return XLSX.utils.sheet_to_json(sheet, { header: 1, raw: true, defval: '', blankrows: true });
+}
+
+export function autoMapColumns(headers: ImportCell[]): (ImportField | null)[] {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const name = normaliseHeader(header);
+    const match = IMPORT_FIELDS.find(f => !used.has(f.field) && f.aliases.includes(name));
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+}
+
+// Our exports put the group name and trip summary above the headers, so look for the row that maps best
+export function findHeaderRow(rows: ImportCell[][]): number {
+  let best = 0;
+  let bestCount = 0;
+  rows.slice(0, 20).forEach((row, index) => {
+    const count = autoMapColumns(row).filter(Boolean).length;
+    if (count > bestCount) {
+      best = index;
+      bestCount = count;
+    }
+  });
+  return best;
+}
+
+// Normalises the date layouts we see in client sheets to the stored form. Unrecognised values are kept so validation flags them.
+export function normaliseImportedDate(value: ImportCell, century: Century = 'past', format?: ExportDateFormat): string {
+  if (typeof value === 'number') {
+    const parsed = XLSX.SSF.parse_date_code(value);
+    return parsed ? toIsoDate(new Date(parsed.y, parsed.m - 1, parsed.d)) : String(value);
+  }
+  return normaliseDate(value.trim().toUpperCase(), century, format);
+}
+
+// `dateFormat` is the on-screen format, for values pasted from the table itself
+export const normaliseValue = (field: ImportField, value: ImportCell, dateFormat?: ExportDateFormat): string => {
+  if (DATE_FIELDS.includes(field)) return normaliseImportedDate(value, centuryFor(field), dateFormat);
+  const text = String(value).trim().toUpperCase();
+  if (field === 'gender') {
+    if (text === 'M' || text === 'MALE') return 'MALE';
+    if (text === 'F' || text === 'FEMALE') return 'FEMALE';
+  }
+  if (field === 'passengerType') {
+    if (['ADT', 'ADULT'].includes(text)) return 'ADULT';
+    if (['CHD', 'CNN', 'CHILD'].includes(text)) return 'CHILD';
+    if (['INF', 'INFANT'].includes(text)) return 'INFANT';
+  }
+  if (field === 'title') return text.replace(/\.$/, '');
+  if (field === 'passportNumber') return text.replace(/\s+/g, '');
+  return text;
+};
+
+export interface ImportedRow {
+  rowNumber: number;
+  details: Partial<PassportData>;
+}
+
+// Turns the rows under the header into passenger details, skipping rows with no name or passport number
+export function buildImportRows(rows: ImportCell[][], headerIndex: number, mapping: (ImportField | null)[]): ImportedRow[] {
+  const result: ImportedRow[] = [];
+  rows.slice(headerIndex + 1).forEach((row, i) => {
+    const details: Partial<PassportData> = {};
+    mapping.forEach((field, column) => {
+      const cell = row[column];
+      if (!field || cell === undefined || String(cell).trim() === '') return;
+      (details as Record<ImportField, string>)[field] = normaliseValue(field, cell);
+    });
+    if (!details.firstName && !details.lastName && !details.passportNumber) return;
+    result.push({ rowNumber: headerIndex + i + 2, details });
+  });
+  return result;
+}
+
+
+// Excel and Google Sheets copy a range as tab-separated lines, quoting cells that hold tabs, line breaks or quotes
+export function parseClipboardTable(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+    } else if (c === '"' && cell === '') {
+      quoted = true;
+    } else if (c === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += c;
+    }
+  }
+  // The trailing line break spreadsheets add doesn't start another row
+  if (cell !== '' || row.length > 0) rows.push([...row, cell]);
+  return rows;
+}
+
+// The reverse, for copying a range out of the table
+export const toClipboardTable = (rows: string[][]) =>
+  rows.map(row => row.map(cell => /[\t\n"]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell).join('\t')).join('\n');
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ingestFiles, needsIngestion } from './ingestionService';
+
+const file = (name: string, type = '') => new File(['x'], name, { type });
+
+// Stands in for the JSZip CDN global with an archive holding the given entries
+const stubZip = (names: string[]) => vi.stubGlobal('JSZip', {
+  loadAsync: async () => ({
+    files: Object.fromEntries(names.map(name => [name, {
+      name,
+      dir: name.endsWith('/'),
+      async: async () => new Blob(['x']),
+    }])),
+  }),
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('needsIngestion', () => {
+  it('is true when a batch holds a PDF or ZIP', () => {
+    expect(needsIngestion([file('a.jpg', 'image/jpeg')])).toBe(false);
+    expect(needsIngestion([file('a.jpg'), file('scans.PDF')])).toBe(true);
+    expect(needsIngestion([file('export', 'application/zip')])).toBe(true);
+  });
+});
+
+describe('ingestFiles', () => {
+  it('passes images and typed MRZ text through and skips the rest', async () => {
+    const result = await ingestFiles([file('a.jpg', 'image/jpeg'), file('b.HEIC'), file('mrz.txt'), file('notes.docx')]);
+    expect(result.files.map(f => f.name)).toEqual(['a.jpg', 'b.HEIC', 'mrz.txt']);
+    expect(result.skipped).toEqual([{ name: 'notes.docx', reason: 'Not an image, PDF or ZIP archive.' }]);
+  });
+
+  it('skips a PDF when the reader has not loaded', async () => {
+    const result = await ingestFiles([file('scans.pdf', 'application/pdf')]);
+    expect(result.files).toEqual([]);
+    expect(result.skipped[0].reason).toMatch(/PDF reader did not load/);
+  });
+
+  it('unpacks archives, naming entries after the archive and dropping noise', async () => {
+    stubZip(['photos/', 'photos/IMG-0001.jpg', 'photos/.DS_Store', '__MACOSX/photos/._IMG-0001.jpg', 'chat.txt', 'IMG-0002.png']);
+    const result = await ingestFiles([file('export.zip', 'application/zip')]);
+    expect(result.files.map(f => [f.name, f.type])).toEqual([
+      ['export.zip/photos/IMG-0001.jpg', 'image/jpeg'],
+      ['export.zip/IMG-0002.png', 'image/png'],
+    ]);
+    expect(result.skipped).toEqual([{ name: 'export.zip/chat.txt', reason: 'Not an image, PDF or ZIP archive.' }]);
+  });
+});
@@ -0,0 +1,114 @@
+declare const pdfjsLib: any;
+declare const JSZip: any;
+
+const PDF_WORKER_SRC = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/3.11.174/pdf.worker.min.js';
+
+// Pages are rendered at twice their PDF size, enough for the MRZ to stay legible
+const PDF_RENDER_SCALE = 2;
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  bmp: 'image/bmp',
+  heic: 'image/heic',
+  heif: 'image/heif',
+};
+
+export interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+export interface IngestResult {
+  files: File[];
+  skipped: SkippedFile[];
+}
+
+const extension = (name: string) => (/\.([^./]+)$/.exec(name)?.[1] || '').toLowerCase();
+
+const isPdf = (file: File) => file.type === 'application/pdf' || extension(file.name) === 'pdf';
+
+const isZip = (file: File) => ['application/zip', 'application/x-zip-compressed'].includes(file.type) || extension(file.name) === 'zip';
+
+const isImage = (file: File) => file.type.startsWith('image/') || extension(file.name) in IMAGE_TYPES;
+
+// True when a batch needs splitting before it can be queued, so the caller can show that it's working
+export const needsIngestion = (files: File[]) => files.some(f => isPdf(f) || isZip(f));
+
+async function renderPdfPages(file: File): Promise<File[]> {
+  if (typeof pdfjsLib === 'undefined') throw new Error('The PDF reader did not load. Check the connection and try again.');
+  pdfjsLib.GlobalWorkerOptions.workerSrc = PDF_WORKER_SRC;
+  const pdf = await pdfjsLib.getDocument({ data: await file.arrayBuffer() }).promise;
+  try {
+    const pages: File[] = [];
+    for (let n = 1; n <= pdf.numPages; n++) {
+      const page = await pdf.getPage(n);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+      page.cleanup();
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+      if (!blob) throw new Error(`Page ${n} could not be rendered.`);
+      pages.push(new File([blob], `${file.name} p.${n}`, { type: 'image/jpeg' }));
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+}
+
+// The parts of a JSZip entry we use; JSZip itself is an untyped CDN global
+interface ZipEntry {
+  name: string;
+  dir: boolean;
+  async: (type: 'blob') => Promise<Blob>;
+}
+
+// Entries keep the archive name in front so the source stays traceable, e.g. "export.zip/IMG-0001.jpg"
+async function unpackZip(file: File): Promise<IngestResult> {
+  if (typeof JSZip === 'undefined') throw new Error('The ZIP reader did not load. Check the connection and try again.');
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const result: IngestResult = { files: [], skipped: [] };
+  const entries = (Object.values(zip.files) as ZipEntry[]).filter(entry => !entry.dir);
+  for (const entry of entries) {
+    const name = `${file.name}/${entry.name}`;
+    // macOS resource forks and hidden files are archive noise, not uploads
+    if (entry.name.split('/').some(part => part.startsWith('.') || part === '__MACOSX')) continue;
+    const blob = await entry.async('blob');
+    const inner = await ingestFile(new File([blob], name, { type: IMAGE_TYPES[extension(name)] || '' }), true);
+    result.files.push(...inner.files);
+    result.skipped.push(...inner.skipped);
+  }
+  return result;
+}
+
+async function ingestFile(file: File, fromArchive: boolean): Promise<IngestResult> {
+  try {
+    if (isPdf(file)) return { files: await renderPdfPages(file), skipped: [] };
+    if (isZip(file)) return await unpackZip(file);
+  } catch (err) {
+    const error = err instanceof Error ? err : null;
+    const reason = error?.name === 'PasswordException' ? 'Password-protected PDF.' : error?.message || 'The file could not be read.';
+    return { files: [], skipped: [{ name: file.name, reason }] };
+  }
+  if (isImage(file)) return { files: [file], skipped: [] };
+  // Loose text files carry typed MRZ lines; inside an archive they're chat logs and the like
+  if (!fromArchive && (file.type === 'text/plain' || extension(file.name) === 'txt')) return { files: [file], skipped: [] };
+  return { files: [], skipped: [{ name: file.name, reason: 'Not an image, PDF or ZIP archive.' }] };
+}
+
+// Splits PDFs into one image per page and unpacks ZIP archives, so every file in the result is one scan
+export async function ingestFiles(files: File[]): Promise<IngestResult> {
+  const result: IngestResult = { files: [], skipped: [] };
+  for (const file of files) {
+    const part = await ingestFile(file, false);
+    result.files.push(...part.files);
+    result.skipped.push(...part.skipped);
+  }
+  return result;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { makeManifest, makePassport } from '../test/fixtures';
+import { duplicateManifest } from './manifestService';
+
+describe('duplicateManifest', () => {
+  const source = makeManifest({
+    archived: true,
+    passports: [
+      makePassport('a', { sourceImageId: 'img-a', notDuplicateOf: ['b'] }),
+      makePassport('b', { lastName: 'ERIKSON', passportNumber: 'X1234567' }),
+    ],
+  });
+
+  it('gives the copy and its records new ids', () => {
+    const copy = duplicateManifest(source);
+    expect(copy.id).not.toBe(source.id);
+    expect(copy.groupName).toBe('Umrah March (Copy)');
+    expect(copy.archived).toBe(false);
+    const ids = copy.passports.map(p => p.id);
+    expect(ids).not.toContain('a');
+    expect(ids).not.toContain('b');
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  it('keeps images and not-a-duplicate marks pointing at the right records', () => {
+    const [a, b] = duplicateManifest(source).passports;
+    expect(a.sourceImageId).toBe('img-a');
+    expect(b.sourceImageId).toBe('b');
+    expect(a.notDuplicateOf).toEqual([b.id]);
+  });
+});
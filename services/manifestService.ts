@@ -0,0 +1,59 @@
+import { ExportDateFormat, Manifest } from '../types';
+import { formatDate } from './dateService';
+
+export const createId = () => Math.random().toString(36).substring(7);
+
+export function createManifest(groupName = 'New Group'): Manifest {
+  const now = Date.now();
+  return {
+    id: createId(),
+    groupName,
+    createdAt: now,
+    updatedAt: now,
+    passports: [],
+  };
+}
+
+// Copied records get their own ids, so a re-scan or edit still running on the original can't land
+// on the copy. They keep pointing at the original's images, which stay in use while either refers to them.
+export function duplicateManifest(source: Manifest): Manifest {
+  const now = Date.now();
+  const newIds = new Map(source.passports.map(p => [p.id, createId()]));
+  return {
+    ...source,
+    id: createId(),
+    groupName: `${source.groupName} (Copy)`,
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+    passports: source.passports.map(p => ({
+      ...p,
+      id: newIds.get(p.id)!,
+      sourceImageId: p.sourceImageId || p.id,
+      notDuplicateOf: p.notDuplicateOf?.map(id => newIds.get(id) || id),
+    })),
+  };
+}
+
+// Travel dates are shown the same way as the passport fields
+export const formatDepartureDate = (value?: string, format?: ExportDateFormat) => formatDate(value, format);
+
+// One-line summary used under the manifest title and at the top of the exported sheet
+export function describeManifest(manifest: Manifest, dateFormat?: ExportDateFormat): string {
+  return [
+    manifest.destination,
+    formatDepartureDate(manifest.departureDate, dateFormat),
+    manifest.airline,
+    manifest.bookingReference && `PNR ${manifest.bookingReference}`,
+  ].filter(Boolean).join(' · ');
+}
+
+const sanitise = (value: string) => value.trim().replace(/[^A-Za-z0-9-]+/g, '_').replace(/^_+|_+$/g, '');
+
+export function manifestFileName(manifest: Manifest, extension: string): string {
+  const parts = [manifest.groupName, manifest.destination, manifest.departureDate, manifest.bookingReference]
+    .filter((p): p is string => !!p)
+    .map(sanitise)
+    .filter(Boolean);
+  return `BESTEX_${parts.join('_') || 'Manifest'}.${extension}`;
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { computeCheckDigit, expandMrzDate, parseMrz, verifyAgainstMrz } from './mrzService';
+
+// ICAO 9303 specimen passport
+const SPECIMEN = 'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<\nL898902C36UTO7408122F1204159ZE184226B<<<<<10';
+
+describe('computeCheckDigit', () => {
+  it('matches the ICAO worked examples', () => {
+    expect(computeCheckDigit('L898902C3')).toBe(6);
+    expect(computeCheckDigit('740812')).toBe(2);
+    expect(computeCheckDigit('120415')).toBe(9);
+  });
+
+  it('counts filler as zero', () => {
+    expect(computeCheckDigit('<<<<<<')).toBe(0);
+  });
+});
+
+describe('parseMrz', () => {
+  it('reads a TD3 passport', () => {
+    const mrz = parseMrz(SPECIMEN)!;
+    expect(mrz.format).toBe('TD3');
+    expect(mrz.lastName).toBe('ERIKSSON');
+    expect(mrz.firstName).toBe('ANNA MARIA');
+    expect(mrz.documentNumber).toBe('L898902C3');
+    expect(mrz.nationality).toBe('UTO');
+    expect(mrz.sex).toBe('FEMALE');
+    expect(mrz.dateOfBirth).toBe('740812');
+    expect(mrz.expiryDate).toBe('120415');
+    expect(mrz.checks).toEqual({ documentNumber: true, dateOfBirth: true, expiryDate: true, composite: true });
+  });
+
+  it('flags a mistyped check digit', () => {
+    const mrz = parseMrz(SPECIMEN.replace('L898902C36', 'L898902C37'))!;
+    expect(mrz.checks.documentNumber).toBe(false);
+    expect(mrz.checks.composite).toBe(false);
+  });
+
+  it('reads a TD1 card', () => {
+    const mrz = parseMrz('I<UTOD231458907<<<<<<<<<<<<<<<\n7408122F1204159UTO<<<<<<<<<<<6\nERIKSSON<<ANNA<MARIA<<<<<<<<<<')!;
+    expect(mrz.format).toBe('TD1');
+    expect(mrz.documentNumber).toBe('D23145890');
+    expect(mrz.checks).toEqual({ documentNumber: true, dateOfBirth: true, expiryDate: true, composite: true });
+  });
+
+  it('tolerates spaces and picks the MRZ out of surrounding text', () => {
+    const mrz = parseMrz(`Passport\n${SPECIMEN.replace('<<ANNA', '<< ANNA')}`);
+    expect(mrz?.lastName).toBe('ERIKSSON');
+  });
+
+  it('returns null when there is no MRZ', () => {
+    expect(parseMrz('not an mrz')).toBeNull();
+  });
+});
+
+describe('expandMrzDate', () => {
+  it('puts birth dates in the past and expiry dates in the 2000s', () => {
+    expect(expandMrzDate('740812', 'birth')).toBe('1974-08-12');
+    expect(expandMrzDate('120415', 'expiry')).toBe('2012-04-15');
+  });
+
+  it('drops dates that are not real days', () => {
+    expect(expandMrzDate('991399', 'birth')).toBe('');
+  });
+});
+
+describe('verifyAgainstMrz', () => {
+  const details = {
+    firstName: 'ANNA MARIA',
+    lastName: 'ERIKSSON',
+    passportNumber: 'L898902C3',
+    gender: 'FEMALE',
+    dateOfBirth: '1974-08-12',
+    expiryDate: '2012-04-15',
+    mrz: SPECIMEN,
+  };
+
+  it('verifies matching fields', () => {
+    expect(verifyAgainstMrz(details)?.status).toBe('verified');
+  });
+
+  it('lists the fields that differ', () => {
+    const check = verifyAgainstMrz({ ...details, passportNumber: 'L898902C8', dateOfBirth: '1974-08-13' })!;
+    expect(check.status).toBe('mismatch');
+    expect(check.issues.map(i => i.field)).toEqual(['passportNumber', 'dateOfBirth']);
+  });
+
+  it('reports an MRZ it cannot parse', () => {
+    expect(verifyAgainstMrz({ ...details, mrz: 'garbage' })?.status).toBe('unreadable');
+  });
+
+  it('skips records without an MRZ', () => {
+    expect(verifyAgainstMrz({ ...details, mrz: undefined })).toBeUndefined();
+  });
+});
@@ -0,0 +1,208 @@
+import { MrzCheck, MrzIssue, PassportData } from '../types';
+import { Century, formatDate, normaliseDate, parseDate } from './dateService';
+
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+export interface MrzCheckDigits {
+  documentNumber: boolean;
+  dateOfBirth: boolean;
+  expiryDate: boolean;
+  composite: boolean;
+}
+
+export interface MrzResult {
+  format: MrzFormat;
+  documentCode: string;
+  issuingState: string;
+  lastName: string;
+  firstName: string;
+  documentNumber: string;
+  nationality: string;
+  dateOfBirth: string; // YYMMDD as printed
+  sex: 'MALE' | 'FEMALE' | '';
+  expiryDate: string; // YYMMDD as printed
+  checks: MrzCheckDigits;
+}
+
+const LINE_LENGTHS: Record<MrzFormat, { lines: number; length: number }> = {
+  TD1: { lines: 3, length: 30 },
+  TD2: { lines: 2, length: 36 },
+  TD3: { lines: 2, length: 44 },
+};
+
+// ICAO 9303 check digit: weights 7-3-1, digits as-is, A-Z = 10-35, filler '<' = 0
+export function computeCheckDigit(value: string): number {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    let v = 0;
+    if (ch >= '0' && ch <= '9') v = ch.charCodeAt(0) - 48;
+    else if (ch >= 'A' && ch <= 'Z') v = ch.charCodeAt(0) - 55;
+    sum += v * weights[i % 3];
+  }
+  return sum % 10;
+}
+
+const isValidCheck = (value: string, digit: string) => {
+  // An all-filler field with a filler check digit is allowed for optional data
+  if (digit === '<') return /^<*$/.test(value);
+  return computeCheckDigit(value) === parseInt(digit, 10);
+};
+
+const stripFiller = (value: string) => value.replace(/<+$/g, '').replace(/</g, ' ').trim();
+
+const parseName = (field: string) => {
+  const [primary, ...rest] = field.split('<<');
+  return {
+    lastName: stripFiller(primary),
+    firstName: stripFiller(rest.join(' ')),
+  };
+};
+
+const parseSex = (ch: string): MrzResult['sex'] => ch === 'M' ? 'MALE' : ch === 'F' ? 'FEMALE' : '';
+
+// Pulls candidate MRZ lines out of free text (model output, pasted text) and normalises them
+export function normaliseMrzLines(text: string): string[] {
+  return text
+    .toUpperCase()
+    .split(/\r?\n/)
+    .map(line => line.replace(/\s+/g, '').replace(/[«‹]/g, '<'))
+    .filter(line => line.length >= 28 && /^[A-Z0-9<]+$/.test(line));
+}
+
+const detectFormat = (lines: string[]): MrzFormat | null => {
+  for (const format of ['TD3', 'TD2', 'TD1'] as MrzFormat[]) {
+    const spec = LINE_LENGTHS[format];
+    if (lines.length >= spec.lines && lines.slice(-spec.lines).every(l => l.length === spec.length)) {
+      return format;
+    }
+  }
+  return null;
+};
+
+export function parseMrz(text: string): MrzResult | null {
+  const all = normaliseMrzLines(text);
+  const format = detectFormat(all);
+  if (!format) return null;
+  const lines = all.slice(-LINE_LENGTHS[format].lines);
+
+  if (format === 'TD1') {
+    const [l1, l2, l3] = lines;
+    const docNumber = l1.slice(5, 14);
+    return {
+      format,
+      documentCode: stripFiller(l1.slice(0, 2)),
+      issuingState: stripFiller(l1.slice(2, 5)),
+      ...parseName(l3),
+      documentNumber: stripFiller(docNumber),
+      nationality: stripFiller(l2.slice(15, 18)),
+      dateOfBirth: l2.slice(0, 6),
+      sex: parseSex(l2[7]),
+      expiryDate: l2.slice(8, 14),
+      checks: {
+        documentNumber: isValidCheck(docNumber, l1[14]),
+        dateOfBirth: isValidCheck(l2.slice(0, 6), l2[6]),
+        expiryDate: isValidCheck(l2.slice(8, 14), l2[14]),
+        composite: isValidCheck(l1.slice(5, 30) + l2.slice(0, 7) + l2.slice(8, 15) + l2.slice(18, 29), l2[29]),
+      },
+    };
+  }
+
+  // TD2 and TD3 share the same layout apart from the width of the name and optional data fields
+  const [l1, l2] = lines;
+  const width = LINE_LENGTHS[format].length;
+  const docNumber = l2.slice(0, 9);
+  return {
+    format,
+    documentCode: stripFiller(l1.slice(0, 2)),
+    issuingState: stripFiller(l1.slice(2, 5)),
+    ...parseName(l1.slice(5)),
+    documentNumber: stripFiller(docNumber),
+    nationality: stripFiller(l2.slice(10, 13)),
+    dateOfBirth: l2.slice(13, 19),
+    sex: parseSex(l2[20]),
+    expiryDate: l2.slice(21, 27),
+    checks: {
+      documentNumber: isValidCheck(docNumber, l2[9]),
+      dateOfBirth: isValidCheck(l2.slice(13, 19), l2[19]),
+      expiryDate: isValidCheck(l2.slice(21, 27), l2[27]),
+      composite: isValidCheck(l2.slice(0, 10) + l2.slice(13, 20) + l2.slice(21, width - 1), l2[width - 1]),
+    },
+  };
+}
+
+// Expands an MRZ YYMMDD date to the stored form. Birth dates can't be in the future, expiry dates are always 20xx.
+export function expandMrzDate(value: string, kind: 'birth' | 'expiry'): string {
+  const century: Century = kind === 'expiry' ? 'future' : 'past';
+  return /^\d{6}$/.test(value) && parseDate(value, century) ? normaliseDate(value, century) : '';
+}
+
+// Builds extracted passport fields straight from a parsed MRZ
+export function mrzToPassportDetails(mrz: MrzResult, raw: string): Partial<PassportData> {
+  return {
+    firstName: mrz.firstName,
+    lastName: mrz.lastName,
+    passportNumber: mrz.documentNumber,
+    nationality: mrz.nationality,
+    gender: mrz.sex || undefined,
+    dateOfBirth: expandMrzDate(mrz.dateOfBirth, 'birth'),
+    expiryDate: expandMrzDate(mrz.expiryDate, 'expiry'),
+    mrz: normaliseMrzLines(raw).slice(-LINE_LENGTHS[mrz.format].lines).join('\n'),
+  };
+}
+
+const normaliseText = (value?: string) => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// Converts a stored date into the YYMMDD form printed in the MRZ
+const toMrzDate = (value?: string) => parseDate(value) ? formatDate(value, 'YYYY-MM-DD').slice(2).replace(/-/g, '') : '';
+
+const FIELD_LABELS: Record<MrzIssue['field'], string> = {
+  passportNumber: 'Passport number',
+  firstName: 'First name',
+  lastName: 'Last name',
+  gender: 'Gender',
+  dateOfBirth: 'Date of birth',
+  expiryDate: 'Expiry date',
+  checkDigit: 'Check digit',
+};
+
+// Cross-checks the extracted fields against the MRZ the record was read from
+export function verifyAgainstMrz(details: Partial<PassportData>): MrzCheck | undefined {
+  if (!details.mrz) return undefined;
+  const mrz = parseMrz(details.mrz);
+  if (!mrz) {
+    return { status: 'unreadable', issues: [{ field: 'checkDigit', message: 'MRZ could not be parsed' }] };
+  }
+
+  const issues: MrzIssue[] = [];
+  const mismatch = (field: MrzIssue['field'], expected: string) =>
+    issues.push({ field, message: `${FIELD_LABELS[field]} does not match MRZ (${expected})` });
+
+  if (!mrz.checks.documentNumber) issues.push({ field: 'checkDigit', message: 'Passport number check digit failed' });
+  if (!mrz.checks.dateOfBirth) issues.push({ field: 'checkDigit', message: 'Date of birth check digit failed' });
+  if (!mrz.checks.expiryDate) issues.push({ field: 'checkDigit', message: 'Expiry date check digit failed' });
+  if (!mrz.checks.composite) issues.push({ field: 'checkDigit', message: 'Composite check digit failed' });
+
+  if (normaliseText(details.passportNumber) !== normaliseText(mrz.documentNumber)) {
+    mismatch('passportNumber', mrz.documentNumber);
+  }
+  // The MRZ truncates long names, so the printed name only has to start with the MRZ one
+  if (mrz.lastName && !normaliseText(details.lastName).startsWith(normaliseText(mrz.lastName))) {
+    mismatch('lastName', mrz.lastName);
+  }
+  if (mrz.firstName && !normaliseText(details.firstName).startsWith(normaliseText(mrz.firstName))) {
+    mismatch('firstName', mrz.firstName);
+  }
+  if (mrz.sex && details.gender && details.gender.toUpperCase() !== mrz.sex) {
+    mismatch('gender', mrz.sex);
+  }
+  if (details.dateOfBirth && toMrzDate(details.dateOfBirth) !== mrz.dateOfBirth) {
+    mismatch('dateOfBirth', mrz.dateOfBirth);
+  }
+  if (details.expiryDate && toMrzDate(details.expiryDate) !== mrz.expiryDate) {
+    mismatch('expiryDate', mrz.expiryDate);
+  }
+
+  return { status: issues.length > 0 ? 'mismatch' : 'verified', issues };
+}
@@ -0,0 +1,26 @@
+import { ExtractionProvider, PassportData } from '../types';
+import { ExtractionError } from './errors';
+import { mrzToPassportDetails, parseMrz } from './mrzService';
+
+// Wraps typed or pasted MRZ text in a File so it can go through the normal upload queue
+export function mrzTextToFile(text: string, name = 'Pasted MRZ.txt'): File {
+  return new File([text], name, { type: 'text/plain' });
+}
+
+export function createMrzTextProvider(): ExtractionProvider {
+  return {
+    id: 'mrz-text',
+    label: 'MRZ text (typed or pasted)',
+    extract: async (file: File): Promise<Partial<PassportData>> => {
+      if (file.type && !file.type.startsWith('text/')) {
+        throw new ExtractionError('MRZ text provider only reads text files. Paste the MRZ lines instead.');
+      }
+      const text = await file.text();
+      const mrz = parseMrz(text);
+      if (!mrz) {
+        throw new ExtractionError('No valid TD1, TD2 or TD3 MRZ found in the text.');
+      }
+      return mrzToPassportDetails(mrz, text);
+    },
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { makeManifest, makePassport } from '../test/fixtures';
+import { PassengerPolicy } from '../types';
+import { applyPassengerPolicy, applyPolicyToList, derivePassenger, DEFAULT_PASSENGER_POLICY } from './passengerPolicy';
+
+const trip = makeManifest({ departureDate: '2026-03-10', returnDate: '2026-03-24' });
+const child = (dateOfBirth: string, fields = {}) => makePassport('c', { gender: 'MALE', dateOfBirth, ...fields });
+const policy = (changes: Partial<PassengerPolicy>): PassengerPolicy => ({ ...DEFAULT_PASSENGER_POLICY, ...changes });
+
+describe('derivePassenger', () => {
+  it('measures age on the departure date by default', () => {
+    const result = derivePassenger(child('2014-03-15'), trip, DEFAULT_PASSENGER_POLICY);
+    expect(result).toMatchObject({ age: 11, passengerType: 'CHILD', title: 'MSTR' });
+    expect(result.note).toBe('Age 11 on travel on 10/03/2026');
+  });
+
+  it('measures age on the return date when the bands say so', () => {
+    const bands = { ...DEFAULT_PASSENGER_POLICY.defaultBands, ageOn: 'return' as const };
+    const result = derivePassenger(child('2014-03-15'), trip, policy({ defaultBands: bands }));
+    expect(result).toMatchObject({ age: 12, passengerType: 'ADULT', title: 'MR' });
+  });
+
+  it('falls back to the departure date without a return date', () => {
+    const bands = { ...DEFAULT_PASSENGER_POLICY.defaultBands, ageOn: 'return' as const };
+    const oneWay = makeManifest({ departureDate: '2026-03-10' });
+    expect(derivePassenger(child('2014-03-15'), oneWay, policy({ defaultBands: bands })).age).toBe(11);
+  });
+
+  it('uses an airline band over the default', () => {
+    const airlineBands = [{ airline: 'SAUDIA', infantUnder: 2, childUnder: 11, ageOn: 'departure' as const }];
+    const saudia = { ...trip, airline: 'Saudia SV' };
+    expect(derivePassenger(child('2015-01-01'), saudia, policy({ airlineBands })).passengerType).toBe('ADULT');
+    expect(derivePassenger(child('2015-01-01'), trip, policy({ airlineBands })).passengerType).toBe('CHILD');
+  });
+
+  it('moves up a band on the exact birthday', () => {
+    expect(derivePassenger(child('2024-03-11'), trip, DEFAULT_PASSENGER_POLICY).passengerType).toBe('INFANT');
+    expect(derivePassenger(child('2024-03-10'), trip, DEFAULT_PASSENGER_POLICY).passengerType).toBe('CHILD');
+    expect(derivePassenger(child('2014-03-11'), trip, DEFAULT_PASSENGER_POLICY).passengerType).toBe('CHILD');
+    expect(derivePassenger(child('2014-03-10'), trip, DEFAULT_PASSENGER_POLICY).passengerType).toBe('ADULT');
+  });
+
+  it('treats a missing birth date as an adult', () => {
+    const result = derivePassenger(child(''), trip, DEFAULT_PASSENGER_POLICY);
+    expect(result).toMatchObject({ age: null, passengerType: 'ADULT', title: 'MR' });
+  });
+});
+
+describe('female titles', () => {
+  const woman = (dateOfBirth: string) => makePassport('w', { dateOfBirth });
+
+  it('follows the MS and MRS modes whatever the age', () => {
+    expect(derivePassenger(woman('2000-01-01'), trip, policy({ adultFemaleTitle: 'MS' })).title).toBe('MS');
+    expect(derivePassenger(woman('2000-01-01'), trip, policy({ adultFemaleTitle: 'MRS' })).title).toBe('MRS');
+  });
+
+  it('switches to MRS at the configured age in BY_AGE mode', () => {
+    const byAge = policy({ adultFemaleTitle: 'BY_AGE', mrsFromAge: 30 });
+    expect(derivePassenger(woman('1996-03-11'), trip, byAge).title).toBe('MS');
+    expect(derivePassenger(woman('1996-03-10'), trip, byAge).title).toBe('MRS');
+  });
+
+  it('uses MISS for girls unless minor titles are off', () => {
+    expect(derivePassenger(woman('2018-01-01'), trip, DEFAULT_PASSENGER_POLICY).title).toBe('MISS');
+    expect(derivePassenger(woman('2018-01-01'), trip, policy({ minorTitles: false })).title).toBe('MS');
+  });
+});
+
+describe('applyPassengerPolicy', () => {
+  it('never overwrites a hand-picked title', () => {
+    const p = child('2014-03-15', { title: 'DR', titleSource: 'manual' as const });
+    expect(applyPassengerPolicy(p, trip, DEFAULT_PASSENGER_POLICY)).toMatchObject({ passengerType: 'CHILD', title: 'DR' });
+  });
+
+  it('never overwrites a hand-picked type, and titles by it', () => {
+    const p = child('1990-01-01', { passengerType: 'CHILD' as const, passengerTypeSource: 'manual' as const });
+    expect(applyPassengerPolicy(p, trip, DEFAULT_PASSENGER_POLICY)).toMatchObject({ passengerType: 'CHILD', title: 'MSTR' });
+  });
+
+  it('returns the same record when nothing changes', () => {
+    const p = applyPassengerPolicy(child('2014-03-15'), trip, DEFAULT_PASSENGER_POLICY);
+    expect(applyPassengerPolicy(p, trip, DEFAULT_PASSENGER_POLICY)).toBe(p);
+  });
+});
+
+describe('applyPolicyToList', () => {
+  it('re-derives completed records and keeps manual values', () => {
+    const list = [
+      child('2014-03-15', { id: 'auto', passengerType: 'ADULT', title: 'MR' }),
+      child('2014-03-15', { id: 'manual', passengerType: 'ADULT', title: 'MR', passengerTypeSource: 'manual', titleSource: 'manual' }),
+      child('2014-03-15', { id: 'scanning', status: 'processing' }),
+    ];
+    const [auto, manual, scanning] = applyPolicyToList(list, trip, DEFAULT_PASSENGER_POLICY);
+    expect(auto).toMatchObject({ passengerType: 'CHILD', title: 'MSTR' });
+    expect(manual).toBe(list[1]);
+    expect(scanning).toBe(list[2]);
+  });
+
+  it('returns the same list when nothing changes', () => {
+    const list = applyPolicyToList([child('2014-03-15')], trip, DEFAULT_PASSENGER_POLICY);
+    expect(applyPolicyToList(list, trip, DEFAULT_PASSENGER_POLICY)).toBe(list);
+  });
+});
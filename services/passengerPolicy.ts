@@ -0,0 +1,119 @@
+import { AgeBands, Manifest, PassengerPolicy, PassengerType, PassportData } from '../types';
+import { ageInYears, parseDate } from './dateService';
+import { formatDepartureDate } from './manifestService';
+
+const SETTINGS_KEY = 'bestex.passengerPolicy';
+
+export const DEFAULT_PASSENGER_POLICY: PassengerPolicy = {
+  defaultBands: { infantUnder: 2, childUnder: 12, ageOn: 'departure' },
+  airlineBands: [],
+  adultFemaleTitle: 'MS',
+  mrsFromAge: 30,
+  minorTitles: true,
+};
+
+export function loadPassengerPolicy(): PassengerPolicy {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PASSENGER_POLICY, ...JSON.parse(stored) } : DEFAULT_PASSENGER_POLICY;
+  } catch {
+    return DEFAULT_PASSENGER_POLICY;
+  }
+}
+
+export function savePassengerPolicy(policy: PassengerPolicy) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(policy));
+}
+
+export function bandsFor(airline: string | undefined, policy: PassengerPolicy): AgeBands {
+  const name = (airline || '').trim().toUpperCase();
+  const match = name ? policy.airlineBands.find(b => b.airline && (name === b.airline || name.includes(b.airline))) : undefined;
+  return match || policy.defaultBands;
+}
+
+// The date ages are measured on: the travel date (or return date if the airline counts that), falling back to today
+export function ageReferenceDate(manifest: Manifest, bands: AgeBands, today = new Date()): { date: Date; label: string } {
+  const departure = parseDate(manifest.departureDate);
+  const ret = parseDate(manifest.returnDate);
+  if (bands.ageOn === 'return' && ret) return { date: ret, label: `return on ${formatDepartureDate(manifest.returnDate!)}` };
+  if (departure) return { date: departure, label: `travel on ${formatDepartureDate(manifest.departureDate!)}` };
+  return { date: today, label: 'today' };
+}
+
+export function ageOn(dob: string, date: Date): number | null {
+  const birth = parseDate(dob);
+  return birth ? ageInYears(birth, date) : null;
+}
+
+function titleFor(type: PassengerType, gender: string | undefined, age: number | null, policy: PassengerPolicy): string {
+  const minor = type !== 'ADULT' && policy.minorTitles;
+  switch ((gender || '').toUpperCase()) {
+    case 'MALE':
+      return minor ? 'MSTR' : 'MR';
+    case 'FEMALE':
+      if (minor) return 'MISS';
+      if (policy.adultFemaleTitle !== 'BY_AGE') return policy.adultFemaleTitle;
+      return age !== null && age >= policy.mrsFromAge ? 'MRS' : 'MS';
+    default:
+      return '';
+  }
+}
+
+export interface PassengerDerivation {
+  age: number | null;
+  passengerType: PassengerType;
+  title: string;
+  note: string;
+}
+
+export function derivePassenger(p: Partial<PassportData>, manifest: Manifest, policy: PassengerPolicy, today = new Date()): PassengerDerivation {
+  const bands = bandsFor(manifest.airline, policy);
+  const reference = ageReferenceDate(manifest, bands, today);
+  const age = p.dateOfBirth ? ageOn(p.dateOfBirth, reference.date) : null;
+
+  let passengerType: PassengerType = 'ADULT';
+  if (age !== null && age < bands.infantUnder) passengerType = 'INFANT';
+  else if (age !== null && age < bands.childUnder) passengerType = 'CHILD';
+
+  const title = titleFor(passengerType, p.gender, age, policy);
+  const note = age === null ? 'No valid date of birth, treated as adult' : `Age ${age} on ${reference.label}`;
+  return { age, passengerType, title, note };
+}
+
+// Fills in type and title from the policy, keeping anything the user chose by hand
+export function applyPassengerPolicy<T extends Partial<PassportData>>(p: T, manifest: Manifest, policy: PassengerPolicy, today = new Date()): T {
+  const derived = derivePassenger(p, manifest, policy, today);
+  const passengerType = p.passengerTypeSource === 'manual' ? p.passengerType : derived.passengerType;
+  // A hand-picked type still drives the title, so a passenger marked CHILD gets MSTR / MISS
+  const title = p.titleSource === 'manual' ? p.title
+    : p.passengerTypeSource === 'manual' ? titleFor(passengerType || 'ADULT', p.gender, derived.age, policy)
+    : derived.title;
+  if (passengerType === p.passengerType && title === p.title) return p;
+  return { ...p, passengerType, title };
+}
+
+// Re-applies the policy to a whole passenger list, returning the same array when nothing changed
+export function applyPolicyToList(list: PassportData[], manifest: Manifest, policy: PassengerPolicy): PassportData[] {
+  let changed = false;
+  const next = list.map(p => {
+    if (p.status !== 'completed') return p;
+    const updated = applyPassengerPolicy(p, manifest, policy);
+    if (updated !== p) changed = true;
+    return updated;
+  });
+  return changed ? next : list;
+}
+
+// For records that arrive with a type and title already filled in (e.g. an imported passenger list),
+// keep the given values by pinning any that differ from what the policy would choose
+export function adoptGivenValues<T extends Partial<PassportData>>(p: T, manifest: Manifest, policy: PassengerPolicy): T {
+  const derived = derivePassenger(p, manifest, policy);
+  const withType = p.passengerType && p.passengerType !== derived.passengerType
+    ? { ...p, passengerTypeSource: 'manual' as const }
+    : { ...p, passengerType: undefined };
+  const expected = applyPassengerPolicy(withType, manifest, policy);
+  const withTitle = p.title && p.title !== expected.title
+    ? { ...withType, titleSource: 'manual' as const }
+    : withType;
+  return applyPassengerPolicy(withTitle, manifest, policy);
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { ExtractionProvider } from '../types';
+import { DEFAULT_PREPROCESS_SETTINGS, GreyImage, sharpness, withPreprocessing } from './preprocessService';
+
+const image = (w: number, h: number, pixel: (x: number, y: number) => number): GreyImage => {
+  const data = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) for (let x = 0; x < w; x++) data[y * w + x] = pixel(x, y);
+  return { data, w, h };
+};
+
+// Records what the wrapped provider was handed
+const recordingProvider = () => {
+  const calls: { file: File; original?: File }[] = [];
+  const provider: ExtractionProvider = {
+    id: 'fixture',
+    label: 'Recording',
+    extract: async (file, _signal, original) => {
+      calls.push({ file, original });
+      return { lastName: 'ERIKSSON' };
+    },
+  };
+  return { provider, calls };
+};
+
+describe('sharpness', () => {
+  it('is zero for a flat image and high for fine detail', () => {
+    expect(sharpness(image(20, 20, () => 128))).toBe(0);
+    expect(sharpness(image(20, 20, (x, y) => ((x + y) % 2 ? 255 : 0)))).toBeGreaterThan(DEFAULT_PREPROCESS_SETTINGS.minSharpness);
+  });
+
+  it('scores a soft gradient below the blur threshold', () => {
+    expect(sharpness(image(20, 20, x => x * 4))).toBeLessThan(DEFAULT_PREPROCESS_SETTINGS.minSharpness);
+  });
+
+  it('copes with images too small to measure', () => {
+    expect(sharpness(image(2, 2, () => 0))).toBe(0);
+  });
+});
+
+describe('withPreprocessing', () => {
+  it('leaves the provider alone when preprocessing is off', () => {
+    const { provider } = recordingProvider();
+    expect(withPreprocessing(provider, { ...DEFAULT_PREPROCESS_SETTINGS, enabled: false }, false)).toBe(provider);
+  });
+
+  it('passes typed MRZ text straight through', async () => {
+    const { provider, calls } = recordingProvider();
+    const text = new File(['P<UTO'], 'mrz.txt', { type: 'text/plain' });
+    await withPreprocessing(provider, DEFAULT_PREPROCESS_SETTINGS, false).extract(text);
+    expect(calls).toEqual([{ file: text, original: undefined }]);
+  });
+
+  it('sends a photo the browser cannot decode on untouched', async () => {
+    const { provider, calls } = recordingProvider();
+    const heic = new File(['not really an image'], 'IMG_0001.HEIC', { type: 'image/heic' });
+    const details = await withPreprocessing(provider, DEFAULT_PREPROCESS_SETTINGS, false).extract(heic);
+    expect(calls).toEqual([{ file: heic, original: undefined }]);
+    expect(details).toEqual({ lastName: 'ERIKSSON' });
+  });
+});
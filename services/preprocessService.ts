@@ -0,0 +1,234 @@
+import { ExtractionProvider, ImageQuality, PassportData, PreprocessSettings } from '../types';
+import { ExtractionError } from './errors';
+import { createId } from './manifestService';
+import { rememberScanImage } from './sourceImages';
+
+const SETTINGS_KEY = 'bestex.preprocessSettings';
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  enabled: true,
+  maxDimension: 2000,
+  jpegQuality: 0.85,
+  autoCrop: true,
+  minSharpness: 30,
+  maxGlare: 0.06,
+};
+
+// Scores are taken from a greyscale copy of this size so they don't depend on the upload's resolution
+const ANALYSIS_SIZE = 512;
+
+// Pixels this bright are blown out; printed passport pages never get there on their own
+const GLARE_LEVEL = 250;
+
+export function loadPreprocessSettings(): PreprocessSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PREPROCESS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PREPROCESS_SETTINGS;
+  } catch {
+    return DEFAULT_PREPROCESS_SETTINGS;
+  }
+}
+
+export function savePreprocessSettings(settings: PreprocessSettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export interface Region {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface GreyImage {
+  data: Float32Array;
+  w: number;
+  h: number;
+}
+
+const createCanvas = (w: number, h: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = w;
+  canvas.height = h;
+  return canvas;
+};
+
+// Browsers apply the EXIF orientation when asked, so phone photos come out upright. Returns null for
+// formats the browser can't draw (HEIC outside Safari, for one), which the model may still read.
+async function decodeImage(file: File): Promise<ImageBitmap | null> {
+  try {
+    return await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    return null;
+  }
+}
+
+// Also used on live camera frames, which is why it takes any drawable source
+export function greyscale(source: CanvasImageSource, region: Region): GreyImage {
+  const scale = Math.min(1, ANALYSIS_SIZE / Math.max(region.w, region.h));
+  const w = Math.max(1, Math.round(region.w * scale));
+  const h = Math.max(1, Math.round(region.h * scale));
+  const ctx = createCanvas(w, h).getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(source, region.x, region.y, region.w, region.h, 0, 0, w, h);
+  const rgba = ctx.getImageData(0, 0, w, h).data;
+  const data = new Float32Array(w * h);
+  for (let i = 0; i < data.length; i++) data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  return { data, w, h };
+}
+
+// Brightness of a thin frame around the edge, which is background in most photos
+function frameStats({ data, w, h }: GreyImage) {
+  const frame = Math.max(2, Math.round(Math.min(w, h) * 0.03));
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (x >= frame && x < w - frame && y >= frame && y < h - frame) continue;
+      const v = data[y * w + x];
+      sum += v;
+      sumSq += v * v;
+      n++;
+    }
+  }
+  const mean = sum / n;
+  return { mean, std: Math.sqrt(Math.max(0, sumSq / n - mean * mean)) };
+}
+
+// Boxes everything that differs from the background. Returns the box as fractions of the image,
+// or null when the photo is already tight or the background is too busy to tell apart.
+function findDocument(grey: GreyImage): Region | null {
+  const { data, w, h } = grey;
+  const { mean, std } = frameStats(grey);
+  if (std > 40) return null;
+
+  const threshold = Math.max(24, std * 2);
+  const rows = new Array(h).fill(0);
+  const cols = new Array(w).fill(0);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (Math.abs(data[y * w + x] - mean) > threshold) {
+        rows[y]++;
+        cols[x]++;
+      }
+    }
+  }
+  const top = rows.findIndex(c => c > w * 0.2);
+  const left = cols.findIndex(c => c > h * 0.2);
+  if (top < 0 || left < 0) return null;
+  const bottom = h - 1 - [...rows].reverse().findIndex(c => c > w * 0.2);
+  const right = w - 1 - [...cols].reverse().findIndex(c => c > h * 0.2);
+
+  const pad = Math.round(Math.min(w, h) * 0.02);
+  const box = {
+    x: Math.max(0, left - pad) / w,
+    y: Math.max(0, top - pad) / h,
+    w: (Math.min(w, right + pad + 1) - Math.max(0, left - pad)) / w,
+    h: (Math.min(h, bottom + pad + 1) - Math.max(0, top - pad)) / h,
+  };
+  const area = box.w * box.h;
+  return area >= 0.2 && area <= 0.9 ? box : null;
+}
+
+// Variance of the Laplacian: edges in a sharp photo give large responses, blur flattens them
+export function sharpness({ data, w, h }: GreyImage): number {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      const v = data[i - w] + data[i + w] + data[i - 1] + data[i + 1] - 4 * data[i];
+      sum += v;
+      sumSq += v * v;
+      n++;
+    }
+  }
+  if (n === 0) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+const glare = ({ data }: GreyImage) => data.reduce((count, v) => v >= GLARE_LEVEL ? count + 1 : count, 0) / data.length;
+
+export interface PreprocessedImage {
+  file: File;
+  quality: ImageQuality;
+}
+
+// Straightens, crops, scores and re-encodes one photo. Photos that fail the quality thresholds
+// are rejected with the reason, since the model would only come back with a generic failure.
+// Resolves null when the browser can't decode or re-encode the photo, so it can be sent on untouched.
+export async function preprocessImage(file: File, settings: PreprocessSettings): Promise<PreprocessedImage | null> {
+  const bitmap = await decodeImage(file);
+  if (!bitmap) return null;
+  try {
+    let region: Region = { x: 0, y: 0, w: bitmap.width, h: bitmap.height };
+    let cropped = false;
+    if (settings.autoCrop) {
+      const box = findDocument(greyscale(bitmap, region));
+      if (box) {
+        region = {
+          x: Math.round(box.x * bitmap.width),
+          y: Math.round(box.y * bitmap.height),
+          w: Math.round(box.w * bitmap.width),
+          h: Math.round(box.h * bitmap.height),
+        };
+        cropped = true;
+      }
+    }
+
+    const grey = greyscale(bitmap, region);
+    const score = Math.round(sharpness(grey));
+    // Scans and PDF pages have pure white margins, which aren't glare
+    const blankMargin = !cropped && frameStats(grey).mean >= GLARE_LEVEL;
+    const glareShare = blankMargin ? 0 : glare(grey);
+    if (score < settings.minSharpness) {
+      throw new ExtractionError(`Photo is too blurry to read (sharpness ${score}, needs ${settings.minSharpness}). Hold the camera steady and retake it.`);
+    }
+    if (glareShare > settings.maxGlare) {
+      throw new ExtractionError(`Glare covers ${Math.round(glareShare * 100)}% of the page (limit ${Math.round(settings.maxGlare * 100)}%). Tilt the passport away from the light and retake it.`);
+    }
+
+    const scale = Math.min(1, settings.maxDimension / Math.max(region.w, region.h));
+    const width = Math.round(region.w * scale);
+    const height = Math.round(region.h * scale);
+    const canvas = createCanvas(width, height);
+    canvas.getContext('2d')!.drawImage(bitmap, region.x, region.y, region.w, region.h, 0, 0, width, height);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', settings.jpegQuality));
+    if (!blob) return null;
+
+    return {
+      file: new File([blob], file.name, { type: 'image/jpeg' }),
+      quality: { sharpness: score, glare: glareShare, width, height, cropped, originalBytes: file.size, bytes: blob.size },
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Runs every image through preprocessing before the real provider sees it. The processed copy is
+// kept as its own image so it can be compared with the original afterwards.
+export function withPreprocessing(provider: ExtractionProvider, settings: PreprocessSettings, persistImages: boolean): ExtractionProvider {
+  if (!settings.enabled) return provider;
+  // Retries reuse the first result instead of decoding the photo again
+  const processed = new WeakMap<File, Promise<PreprocessedImage | null>>();
+  return {
+    ...provider,
+    extract: async (file: File, signal?: AbortSignal): Promise<Partial<PassportData>> => {
+      // Typed MRZ text has nothing to preprocess
+      if (file.type.startsWith('text/')) return provider.extract(file, signal);
+      let pending = processed.get(file);
+      if (!pending) {
+        pending = preprocessImage(file, settings);
+        processed.set(file, pending);
+      }
+      const result = await pending;
+      if (!result) return provider.extract(file, signal);
+      const details = await provider.extract(result.file, signal, file);
+      const processedImageId = createId();
+      rememberScanImage(processedImageId, result.file, persistImages);
+      return { ...details, processedImageId, imageQuality: result.quality };
+    },
+  };
+}
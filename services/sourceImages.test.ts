@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { getSourceImage, rememberScanImage, unclaimedImageIds } from './sourceImages';
+
+describe('unclaimedImageIds', () => {
+  it('keeps scan images until a record refers to them', async () => {
+    const file = new File(['x'], 'processed.jpg', { type: 'image/jpeg' });
+    rememberScanImage('processed-1', file, false);
+    expect(unclaimedImageIds(['source-1'])).toContain('processed-1');
+    expect(unclaimedImageIds(['source-1', 'processed-1'])).not.toContain('processed-1');
+    expect(unclaimedImageIds([])).not.toContain('processed-1');
+    expect(await getSourceImage('processed-1')).toBe(file);
+  });
+});
@@ -0,0 +1,41 @@
+import { loadImage, saveImage } from './storageService';
+
+// Uploads from this session are always kept in memory; IndexedDB only has them when "Keep source images" is on
+const cache = new Map<string, File>();
+
+// Images saved during a scan, before the record has been updated to point at them
+const awaitingRecord = new Set<string>();
+
+export function rememberSourceImage(imageId: string, file: File, persist: boolean) {
+  cache.set(imageId, file);
+  if (persist) {
+    saveImage(imageId, file).catch(err => console.error('Image save failed:', err));
+  }
+}
+
+export function rememberScanImage(imageId: string, file: File, persist: boolean) {
+  awaitingRecord.add(imageId);
+  rememberSourceImage(imageId, file, persist);
+}
+
+// Scan images no record refers to yet, which cleanup must keep. Ones the given records now refer to are settled.
+export function unclaimedImageIds(referenced: string[]): string[] {
+  referenced.forEach(id => awaitingRecord.delete(id));
+  return [...awaitingRecord];
+}
+
+export async function getSourceImage(imageId: string | undefined, fileName = 'passport.jpg'): Promise<File | null> {
+  if (!imageId) return null;
+  const cached = cache.get(imageId);
+  if (cached) return cached;
+  try {
+    const blob = await loadImage(imageId);
+    if (!blob) return null;
+    const file = blob instanceof File ? blob : new File([blob], fileName, { type: blob.type });
+    cache.set(imageId, file);
+    return file;
+  } catch (err) {
+    console.error('Image load failed:', err);
+    return null;
+  }
+}
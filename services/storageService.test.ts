@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { makeManifest, makePassport } from '../test/fixtures';
+import { SessionRestoreError } from './errors';
+import { migrateSession, SCHEMA_VERSION } from './storageService';
+
+const v1Passport = {
+  id: 'p1',
+  firstName: 'ANNA',
+  lastName: 'ERIKSSON',
+  passportNumber: 'L898902C3',
+  dateOfBirth: '12/08/1974',
+  expiryDate: '15/04/2032',
+  fileName: 'anna.jpg',
+  status: 'completed',
+  isDuplicate: true,
+};
+
+describe('migrateSession', () => {
+  it('upgrades a v1 session all the way', () => {
+    const session = migrateSession({ savedAt: 1000, passports: [v1Passport] })!;
+    expect(session.schemaVersion).toBe(SCHEMA_VERSION);
+    expect(session.activeManifestId).toBe('default');
+    expect(session.manifests).toHaveLength(1);
+    const [passport] = session.manifests[0].passports;
+    expect(passport).not.toHaveProperty('isDuplicate');
+    expect(passport).toMatchObject({ sourceImageId: 'p1', dateOfBirth: '1974-08-12', expiryDate: '2032-04-15' });
+  });
+
+  it('keeps an existing source image reference', () => {
+    const manifest = makeManifest({ passports: [makePassport('p1', { sourceImageId: 'img' })] });
+    const session = migrateSession({ schemaVersion: 2, savedAt: 0, activeManifestId: manifest.id, manifests: [manifest] })!;
+    expect(session.manifests[0].passports[0].sourceImageId).toBe('img');
+  });
+
+  it('leaves a current session as it is', () => {
+    const raw = { schemaVersion: SCHEMA_VERSION, savedAt: 0, activeManifestId: null, manifests: [] };
+    expect(migrateSession(raw)).toEqual(raw);
+  });
+
+  it('returns null when nothing was saved', () => {
+    expect(migrateSession(undefined)).toBeNull();
+    expect(migrateSession(null)).toBeNull();
+  });
+
+  it('refuses a session from a newer version', () => {
+    expect(() => migrateSession({ schemaVersion: SCHEMA_VERSION + 1, manifests: [] })).toThrow(SessionRestoreError);
+  });
+
+  it('refuses records it cannot read', () => {
+    expect(() => migrateSession('garbage')).toThrow(SessionRestoreError);
+    expect(() => migrateSession([])).toThrow(SessionRestoreError);
+    expect(() => migrateSession({ schemaVersion: SCHEMA_VERSION })).toThrow(SessionRestoreError);
+    // v2 expects a manifest list, so the upgrade itself fails
+    expect(() => migrateSession({ schemaVersion: 2 })).toThrow(SessionRestoreError);
+  });
+});
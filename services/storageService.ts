@@ -0,0 +1,170 @@
+import { Manifest, PassportData } from '../types';
+import { centuryFor, DATE_FIELDS, normaliseDate } from './dateService';
+import { SessionRestoreError } from './errors';
+
+const DB_NAME = 'bestex-namelist';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const IMAGE_STORE = 'images';
+const SESSION_KEY = 'current';
+const PERSIST_IMAGES_KEY = 'bestex.persistImages';
+
+// Bump this whenever the shape of saved records changes, and add a migration from the previous version
+export const SCHEMA_VERSION = 5;
+
+export interface StoredSession {
+  schemaVersion: number;
+  savedAt: number;
+  activeManifestId: string | null;
+  manifests: Manifest[];
+}
+
+// A session as some earlier version saved it; each migration reads the fields its version wrote
+interface LegacySession {
+  schemaVersion?: number;
+  savedAt?: number;
+  activeManifestId?: string | null;
+  passports?: PassportData[];
+  manifests?: Manifest[];
+}
+
+// Each entry upgrades a saved session from version N to N + 1
+const MIGRATIONS: Record<number, (session: LegacySession) => LegacySession> = {
+  // v1 stored a single implicit manifest as a flat passport list
+  1: session => {
+    const manifest: Manifest = {
+      id: 'default',
+      groupName: 'Active Manifest',
+      createdAt: session.savedAt,
+      updatedAt: session.savedAt,
+      passports: session.passports || [],
+    };
+    return { savedAt: session.savedAt, activeManifestId: manifest.id, manifests: [manifest] };
+  },
+  // v3 gives records an explicit source image reference; earlier images were stored under the record id
+  2: session => ({
+    ...session,
+    manifests: session.manifests.map(m => ({
+      ...m,
+      passports: m.passports.map(p => ({ ...p, sourceImageId: p.sourceImageId ?? p.id })),
+    })),
+  }),
+  // v4 works duplicates out from the whole list on load instead of storing a flag on each record
+  3: session => ({
+    ...session,
+    manifests: session.manifests.map(m => ({
+      ...m,
+      passports: m.passports.map(({ isDuplicate, ...p }: PassportData & { isDuplicate?: boolean }) => p),
+    })),
+  }),
+  // v5 stores passport dates as YYYY-MM-DD instead of DD/MM/YYYY
+  4: session => ({
+    ...session,
+    manifests: session.manifests.map(m => ({
+      ...m,
+      passports: m.passports.map(p => {
+        const dates = DATE_FIELDS.filter(field => p[field]).map(field => [field, normaliseDate(p[field], centuryFor(field))]);
+        return { ...p, ...Object.fromEntries(dates) };
+      }),
+    })),
+  }),
+};
+
+export function migrateSession(raw: unknown): StoredSession | null {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw !== 'object' || Array.isArray(raw)) throw new SessionRestoreError('Your saved manifests are not in a format this app can read.');
+  let session = raw as LegacySession;
+  let version = session.schemaVersion ?? 1;
+  if (version > SCHEMA_VERSION) {
+    throw new SessionRestoreError(`Your saved manifests come from a newer version of the app (schema v${version}, this one reads up to v${SCHEMA_VERSION}).`);
+  }
+  while (version < SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new SessionRestoreError(`Your saved manifests use schema v${version}, which this version of the app can't upgrade.`);
+    try {
+      session = migrate(session);
+    } catch (err) {
+      throw new SessionRestoreError(`Your saved manifests could not be upgraded from schema v${version}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    version++;
+  }
+  if (!Array.isArray(session.manifests)) throw new SessionRestoreError('Your saved manifests are not in a format this app can read.');
+  return { ...session, schemaVersion: SCHEMA_VERSION } as StoredSession;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+        if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(store: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Resolves null when nothing was saved, and rejects when something was saved but can't be read
+export async function loadSession(): Promise<StoredSession | null> {
+  const raw = await runRequest(SESSION_STORE, 'readonly', store => store.get(SESSION_KEY));
+  const session = migrateSession(raw);
+  if (!session) return null;
+  // A scan that was running when the tab closed will never finish
+  const manifests = session.manifests.map(m => ({
+    ...m,
+    passports: m.passports.map(p =>
+      p.status === 'processing' || p.status === 'pending'
+        ? { ...p, status: 'error' as const, errorMessage: 'Scan interrupted. Retry the scan or re-upload this passport.' }
+        : p
+    ),
+  }));
+  return { ...session, manifests };
+}
+
+export async function saveSession(manifests: Manifest[], activeManifestId: string | null): Promise<void> {
+  const session: StoredSession = { schemaVersion: SCHEMA_VERSION, savedAt: Date.now(), activeManifestId, manifests };
+  await runRequest(SESSION_STORE, 'readwrite', store => store.put(session, SESSION_KEY));
+}
+
+export async function clearSession(): Promise<void> {
+  await runRequest(SESSION_STORE, 'readwrite', store => store.delete(SESSION_KEY));
+  await runRequest(IMAGE_STORE, 'readwrite', store => store.clear());
+}
+
+export async function saveImage(id: string, file: Blob): Promise<void> {
+  await runRequest(IMAGE_STORE, 'readwrite', store => store.put(file, id));
+}
+
+export async function loadImage(id: string): Promise<Blob | undefined> {
+  return runRequest<Blob | undefined>(IMAGE_STORE, 'readonly', store => store.get(id));
+}
+
+// Drops stored images that no record refers to any more
+export async function pruneImages(keepIds: string[]): Promise<void> {
+  const keep = new Set(keepIds);
+  const keys = await runRequest(IMAGE_STORE, 'readonly', store => store.getAllKeys());
+  await Promise.all(keys.filter(k => !keep.has(String(k))).map(k => runRequest(IMAGE_STORE, 'readwrite', store => store.delete(k))));
+}
+
+export function loadPersistImages(): boolean {
+  return localStorage.getItem(PERSIST_IMAGES_KEY) === 'true';
+}
+
+export function savePersistImages(enabled: boolean) {
+  localStorage.setItem(PERSIST_IMAGES_KEY, String(enabled));
+}
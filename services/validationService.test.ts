@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { makePassport } from '../test/fixtures';
+import { countIssues, validateManifest, validatePassport } from './validationService';
+
+const today = new Date(2026, 2, 1);
+const messages = (fields = {}) => validatePassport(makePassport('a', fields), today).map(i => `${i.severity}: ${i.message}`);
+
+describe('validatePassport', () => {
+  it('passes a complete record', () => {
+    expect(messages()).toEqual([]);
+  });
+
+  it('skips records that are not completed', () => {
+    expect(messages({ status: 'error', lastName: '' })).toEqual([]);
+  });
+
+  it('flags missing fields by severity', () => {
+    expect(messages({ firstName: '', lastName: ' ', issueDate: '' })).toEqual([
+      'warning: First name is required',
+      'error: Last name is required',
+      'warning: Issue date is required',
+    ]);
+  });
+
+  it('flags dates it cannot read', () => {
+    expect(messages({ dateOfBirth: '31/02/1990' })).toEqual(['error: Date of birth is not a recognisable date']);
+  });
+
+  it('checks dates against today and each other', () => {
+    expect(messages({ dateOfBirth: '2027-01-01', issueDate: '2026-01-01' })).toEqual([
+      'error: Date of birth is in the future',
+      'error: Issue date is before date of birth',
+    ]);
+    expect(messages({ issueDate: '2026-06-01' })).toEqual(['error: Issue date is in the future']);
+    expect(messages({ expiryDate: '2022-04-16' })).toEqual(['error: Expiry date is not after issue date']);
+    expect(messages({ expiryDate: '2033-04-15' })).toEqual(['warning: Passport is valid for more than 10 years']);
+    expect(messages({ dateOfBirth: '1900-01-01' })).toEqual(['warning: Date of birth is more than 120 years ago']);
+  });
+
+  it('checks passport numbers against the nationality format', () => {
+    expect(messages({ nationality: 'INDIA', passportNumber: 'U9628867' })).toEqual([]);
+    expect(messages({ nationality: 'INDIA', passportNumber: '96288670' })).toEqual([
+      'error: Passport number does not match the INDIA format (e.g. U9628867)',
+    ]);
+    expect(messages({ passportNumber: 'L898-902' })).toEqual(['error: Passport number can only contain letters and digits']);
+    expect(messages({ passportNumber: 'L89' })).toEqual(['warning: Passport number should be 5 to 9 characters']);
+  });
+});
+
+describe('validateManifest', () => {
+  it('lists issues for the records that have them and counts them', () => {
+    const issues = validateManifest([makePassport('ok'), makePassport('bad', { lastName: '', firstName: '' })], today);
+    expect(Object.keys(issues)).toEqual(['bad']);
+    expect(countIssues(issues)).toEqual({ errors: 1, warnings: 1 });
+  });
+
+  it('keeps the same issue list for an unchanged record', () => {
+    const bad = makePassport('bad', { lastName: '' });
+    expect(validateManifest([bad], today).bad).toBe(validateManifest([bad], today).bad);
+    expect(validateManifest([{ ...bad }], today).bad).not.toBe(validateManifest([bad], today).bad);
+  });
+});
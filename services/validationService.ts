@@ -0,0 +1,113 @@
+import { DateField, PassportData, ValidationIssue } from '../types';
+import { centuryFor, parseDate, toIsoDate, yearsBetween } from './dateService';
+
+const DATE_LABELS: Record<DateField, string> = {
+  dateOfBirth: 'Date of birth',
+  issueDate: 'Issue date',
+  expiryDate: 'Expiry date',
+};
+
+const REQUIRED_FIELDS: { field: keyof PassportData; label: string; severity: ValidationIssue['severity'] }[] = [
+  { field: 'firstName', label: 'First name', severity: 'warning' },
+  { field: 'lastName', label: 'Last name', severity: 'error' },
+  { field: 'passportNumber', label: 'Passport number', severity: 'error' },
+  { field: 'nationality', label: 'Country', severity: 'error' },
+  { field: 'gender', label: 'Gender', severity: 'error' },
+  { field: 'dateOfBirth', label: 'Date of birth', severity: 'error' },
+  { field: 'expiryDate', label: 'Expiry date', severity: 'error' },
+  { field: 'issueDate', label: 'Issue date', severity: 'warning' },
+];
+
+// Passport number formats for the nationalities we see most. Anything else falls back to the ICAO limit.
+const PASSPORT_PATTERNS: { names: string[]; pattern: RegExp; example: string }[] = [
+  { names: ['INDIA', 'IND', 'INDIAN'], pattern: /^[A-Z][0-9]{7}$/, example: 'U9628867' },
+  { names: ['PAKISTAN', 'PAK', 'PAKISTANI'], pattern: /^[A-Z]{2}[0-9]{7}$/, example: 'AB1234567' },
+  { names: ['BANGLADESH', 'BGD', 'BANGLADESHI'], pattern: /^[A-Z]{1,2}[0-9]{7}$/, example: 'A01234567' },
+  { names: ['SRI LANKA', 'LKA', 'SRI LANKAN'], pattern: /^[A-Z][0-9]{7}$/, example: 'N1234567' },
+  { names: ['NEPAL', 'NPL', 'NEPALESE', 'NEPALI'], pattern: /^[A-Z0-9]{8,9}$/, example: 'PA1234567' },
+  { names: ['UNITED KINGDOM', 'GBR', 'BRITISH'], pattern: /^[0-9]{9}$/, example: '123456789' },
+  { names: ['UNITED STATES', 'USA', 'AMERICAN'], pattern: /^[A-Z0-9][0-9]{8}$/, example: '123456789' },
+];
+
+const GENERIC_PASSPORT_PATTERN = /^[A-Z0-9]{5,9}$/;
+
+export function validatePassport(p: PassportData, today = new Date()): ValidationIssue[] {
+  // Records still scanning or that failed have nothing meaningful to check yet
+  if (p.status !== 'completed') return [];
+  const issues: ValidationIssue[] = [];
+
+  REQUIRED_FIELDS.forEach(({ field, label, severity }) => {
+    if (!String(p[field] ?? '').trim()) issues.push({ field, severity, message: `${label} is required` });
+  });
+
+  const dates: Partial<Record<DateField, Date>> = {};
+  (Object.keys(DATE_LABELS) as DateField[]).forEach(field => {
+    const value = p[field];
+    if (!value) return;
+    const parsed = parseDate(value, centuryFor(field));
+    if (!parsed) {
+      issues.push({ field, severity: 'error', message: `${DATE_LABELS[field]} is not a recognisable date` });
+    } else {
+      dates[field] = parsed;
+    }
+  });
+
+  const { dateOfBirth, issueDate, expiryDate } = dates;
+  if (dateOfBirth && dateOfBirth > today) {
+    issues.push({ field: 'dateOfBirth', severity: 'error', message: 'Date of birth is in the future' });
+  } else if (dateOfBirth && yearsBetween(dateOfBirth, today) > 120) {
+    issues.push({ field: 'dateOfBirth', severity: 'warning', message: 'Date of birth is more than 120 years ago' });
+  }
+  if (issueDate && issueDate > today) {
+    issues.push({ field: 'issueDate', severity: 'error', message: 'Issue date is in the future' });
+  }
+  if (issueDate && dateOfBirth && issueDate < dateOfBirth) {
+    issues.push({ field: 'issueDate', severity: 'error', message: 'Issue date is before date of birth' });
+  }
+  if (expiryDate && issueDate && expiryDate <= issueDate) {
+    issues.push({ field: 'expiryDate', severity: 'error', message: 'Expiry date is not after issue date' });
+  } else if (expiryDate && issueDate && yearsBetween(issueDate, expiryDate) > 10.1) {
+    issues.push({ field: 'expiryDate', severity: 'warning', message: 'Passport is valid for more than 10 years' });
+  }
+  if (expiryDate && dateOfBirth && expiryDate <= dateOfBirth) {
+    issues.push({ field: 'expiryDate', severity: 'error', message: 'Expiry date is before date of birth' });
+  }
+
+  const number = (p.passportNumber || '').trim().toUpperCase();
+  if (number) {
+    const nationality = (p.nationality || '').trim().toUpperCase();
+    const rule = PASSPORT_PATTERNS.find(r => r.names.includes(nationality));
+    if (/[^A-Z0-9]/.test(number)) {
+      issues.push({ field: 'passportNumber', severity: 'error', message: 'Passport number can only contain letters and digits' });
+    } else if (rule && !rule.pattern.test(number)) {
+      issues.push({ field: 'passportNumber', severity: 'error', message: `Passport number does not match the ${nationality} format (e.g. ${rule.example})` });
+    } else if (!rule && !GENERIC_PASSPORT_PATTERN.test(number)) {
+      issues.push({ field: 'passportNumber', severity: 'warning', message: 'Passport number should be 5 to 9 characters' });
+    }
+  }
+
+  return issues;
+}
+
+// Records are replaced rather than mutated, so issues are cached per record object for the day they
+// were checked on. An unchanged record keeps the same list, which memoized rows compare by reference.
+const issueCache = new WeakMap<PassportData, { day: string; issues: ValidationIssue[] }>();
+
+export function validateManifest(passports: PassportData[], today = new Date()): Record<string, ValidationIssue[]> {
+  const day = toIsoDate(today);
+  const result: Record<string, ValidationIssue[]> = {};
+  passports.forEach(p => {
+    let cached = issueCache.get(p);
+    if (cached?.day !== day) issueCache.set(p, cached = { day, issues: validatePassport(p, today) });
+    const { issues } = cached;
+    if (issues.length > 0) result[p.id] = issues;
+  });
+  return result;
+}
+
+export function countIssues(issues: Record<string, ValidationIssue[]>) {
+  let errors = 0;
+  let warnings = 0;
+  Object.values(issues).forEach(list => list.forEach(i => i.severity === 'error' ? errors++ : warnings++));
+  return { errors, warnings };
+}
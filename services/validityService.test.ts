@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { makeManifest, makePassport } from '../test/fixtures';
+import { checkManifestValidity, checkValidity, DEFAULT_VALIDITY_SETTINGS, requiredMonths } from './validityService';
+
+const trip = makeManifest({ departureDate: '2026-03-10', returnDate: '2026-03-24', destination: 'SAUDI ARABIA' });
+const check = (expiryDate: string, manifest = trip) => checkValidity(makePassport('a', { expiryDate }), manifest, DEFAULT_VALIDITY_SETTINGS);
+
+describe('requiredMonths', () => {
+  it('uses the destination rule when there is one', () => {
+    expect(requiredMonths('Schengen area', DEFAULT_VALIDITY_SETTINGS)).toBe(3);
+    expect(requiredMonths('UNITED KINGDOM', DEFAULT_VALIDITY_SETTINGS)).toBe(0);
+    expect(requiredMonths('SAUDI ARABIA', DEFAULT_VALIDITY_SETTINGS)).toBe(6);
+    expect(requiredMonths(undefined, DEFAULT_VALIDITY_SETTINGS)).toBe(6);
+  });
+});
+
+describe('checkValidity', () => {
+  it('needs six months after the return date', () => {
+    expect(check('2026-09-24').status).toBe('valid');
+    expect(check('2026-09-23')).toEqual({ status: 'expiring', message: 'Less than 6 months left after return' });
+  });
+
+  it('counts from the travel date on a one-way trip', () => {
+    const oneWay = { ...trip, returnDate: undefined };
+    expect(check('2026-09-10', oneWay).status).toBe('valid');
+    expect(check('2026-09-09', oneWay).status).toBe('expiring');
+  });
+
+  it('flags a passport that expires before travel', () => {
+    expect(check('2026-03-09')).toEqual({ status: 'expired', message: 'Expires before travel on 10/03/2026' });
+  });
+
+  it('applies the shorter rule for the destination', () => {
+    expect(check('2026-07-01', { ...trip, destination: 'SCHENGEN' }).status).toBe('valid');
+  });
+
+  it('reports an unreadable expiry date', () => {
+    expect(check('soon').status).toBe('unknown');
+  });
+});
+
+describe('checkManifestValidity', () => {
+  it('checks completed records only', () => {
+    const result = checkManifestValidity(trip, [makePassport('a'), makePassport('b', { status: 'processing' })], DEFAULT_VALIDITY_SETTINGS);
+    expect(Object.keys(result)).toEqual(['a']);
+  });
+
+  it('keeps the same result for an unchanged record until the trip changes', () => {
+    const list = [makePassport('a')];
+    const first = checkManifestValidity(trip, list, DEFAULT_VALIDITY_SETTINGS);
+    expect(checkManifestValidity(trip, list, DEFAULT_VALIDITY_SETTINGS).a).toBe(first.a);
+    expect(checkManifestValidity({ ...trip, destination: 'SCHENGEN' }, list, DEFAULT_VALIDITY_SETTINGS).a).not.toBe(first.a);
+  });
+});
@@ -0,0 +1,79 @@
+import { Manifest, PassportData, ValidityResult, ValiditySettings } from '../types';
+import { addMonths, parseDate, toIsoDate } from './dateService';
+import { formatDepartureDate } from './manifestService';
+
+const SETTINGS_KEY = 'bestex.validitySettings';
+
+// Most destinations want six months left on the passport; a few accept less
+export const DEFAULT_VALIDITY_SETTINGS: ValiditySettings = {
+  defaultMonths: 6,
+  destinationMonths: {
+    'SCHENGEN': 3,
+    'UNITED KINGDOM': 0,
+  },
+  includeInExport: false,
+};
+
+export const VALIDITY_LABELS: Record<ValidityResult['status'], string> = {
+  valid: 'Valid',
+  expiring: 'Expiring',
+  expired: 'Expired',
+  unknown: 'Unknown',
+};
+
+export function loadValiditySettings(): ValiditySettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    return stored ? { ...DEFAULT_VALIDITY_SETTINGS, ...JSON.parse(stored) } : DEFAULT_VALIDITY_SETTINGS;
+  } catch {
+    return DEFAULT_VALIDITY_SETTINGS;
+  }
+}
+
+export function saveValiditySettings(settings: ValiditySettings) {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function requiredMonths(destination: string | undefined, settings: ValiditySettings): number {
+  const dest = (destination || '').trim().toUpperCase();
+  if (!dest) return settings.defaultMonths;
+  const match = Object.keys(settings.destinationMonths).find(key => dest === key || dest.includes(key));
+  return match !== undefined ? settings.destinationMonths[match] : settings.defaultMonths;
+}
+
+// Checks a passport against the manifest's travel dates: it must not expire before travel, and must
+// still have the destination's required months left after the return date (or the travel date for one-way trips)
+export function checkValidity(p: PassportData, manifest: Manifest, settings: ValiditySettings, today = new Date()): ValidityResult {
+  const expiry = parseDate(p.expiryDate, 'future');
+  if (!expiry) return { status: 'unknown', message: 'No valid expiry date' };
+
+  const travel = parseDate(manifest.departureDate) || today;
+  const reference = parseDate(manifest.returnDate) || travel;
+  const months = requiredMonths(manifest.destination, settings);
+  const travelLabel = manifest.departureDate ? `travel on ${formatDepartureDate(manifest.departureDate)}` : 'today';
+
+  if (expiry < travel) {
+    return { status: 'expired', message: `Expires before ${travelLabel}` };
+  }
+  if (expiry < addMonths(reference, months)) {
+    const basis = manifest.returnDate ? 'return' : manifest.departureDate ? 'travel' : 'today';
+    return { status: 'expiring', message: `Less than ${months} months left after ${basis}` };
+  }
+  return { status: 'valid', message: `At least ${months} months left after ${manifest.returnDate ? 'return' : 'travel'}` };
+}
+
+// Results are cached per record object along with what they were checked against, so an unchanged
+// record keeps the same result object and memoized rows can compare it by reference
+const resultCache = new WeakMap<PassportData, { key: string; result: ValidityResult }>();
+
+export function checkManifestValidity(manifest: Manifest, passports: PassportData[], settings: ValiditySettings, today = new Date()): Record<string, ValidityResult> {
+  const key = JSON.stringify([manifest.departureDate, manifest.returnDate, manifest.destination, settings, toIsoDate(today)]);
+  const result: Record<string, ValidityResult> = {};
+  passports.forEach(p => {
+    if (p.status !== 'completed') return;
+    let cached = resultCache.get(p);
+    if (cached?.key !== key) resultCache.set(p, cached = { key, result: checkValidity(p, manifest, settings, today) });
+    result[p.id] = cached.result;
+  });
+  return result;
+}
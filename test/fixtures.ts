@@ -0,0 +1,26 @@
+import { Manifest, PassportData } from '../types';
+
+// The ICAO 9303 specimen traveller, completed and with every field the services read
+export const makePassport = (id: string, fields: Partial<PassportData> = {}): PassportData => ({
+  id,
+  firstName: 'ANNA MARIA',
+  lastName: 'ERIKSSON',
+  passportNumber: 'L898902C3',
+  nationality: 'UTO',
+  gender: 'FEMALE',
+  dateOfBirth: '1974-08-12',
+  issueDate: '2022-04-16',
+  expiryDate: '2032-04-15',
+  fileName: `${id}.jpg`,
+  status: 'completed',
+  ...fields,
+});
+
+export const makeManifest = (fields: Partial<Manifest> = {}): Manifest => ({
+  id: 'm1',
+  groupName: 'Umrah March',
+  createdAt: 0,
+  updatedAt: 0,
+  passports: [],
+  ...fields,
+});
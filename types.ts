@@ -1,22 +1,131 @@
 
+export type PassengerType = 'ADULT' | 'CHILD' | 'INFANT';
+
 export interface PassportData {
   id: string;
-  passengerType?: 'ADULT' | 'CHILD' | 'INFANT';
+  passengerType?: PassengerType;
   title?: 'MR' | 'MRS' | 'MS' | 'MSTR' | 'MISS' | string;
+  // 'manual' once the user picks a value by hand, so the passenger policy leaves it alone
+  passengerTypeSource?: 'auto' | 'manual';
+  titleSource?: 'auto' | 'manual';
   firstName: string;
   lastName: string;
   passportNumber: string;
   nationality?: string;
   gender?: 'MALE' | 'FEMALE' | string;
+  // YYYY-MM-DD once recognised; anything else is kept as typed and flagged by validation
   dateOfBirth?: string;
   issueDate?: string;
   expiryDate?: string;
   fileName: string;
+  sourceImageId?: string;
+  // The downscaled, cropped copy that was actually sent for extraction, and how it scored
+  processedImageId?: string;
+  imageQuality?: ImageQuality;
   status: 'pending' | 'processing' | 'completed' | 'error';
   errorMessage?: string;
-  isDuplicate?: boolean;
+  mrz?: string;
+  mrzCheck?: MrzCheck;
+  // Records the user has confirmed are different people, so they are never flagged as duplicates of this one
+  notDuplicateOf?: string[];
+}
+
+export interface MrzIssue {
+  field: 'passportNumber' | 'firstName' | 'lastName' | 'gender' | 'dateOfBirth' | 'expiryDate' | 'checkDigit';
+  message: string;
+}
+
+export interface MrzCheck {
+  status: 'verified' | 'mismatch' | 'unreadable';
+  issues: MrzIssue[];
+}
+
+export interface DuplicateMatch {
+  id: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface ValidationIssue {
+  field: keyof PassportData;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface Manifest {
+  id: string;
+  groupName: string;
+  destination?: string;
+  departureDate?: string; // YYYY-MM-DD
+  returnDate?: string; // YYYY-MM-DD
+  bookingReference?: string;
+  airline?: string;
+  archived?: boolean;
+  createdAt: number;
+  updatedAt: number;
+  passports: PassportData[];
+}
+
+export type ManifestDetails = Pick<Manifest, 'groupName' | 'destination' | 'departureDate' | 'returnDate' | 'bookingReference' | 'airline'>;
+
+export type ValidityStatus = 'valid' | 'expiring' | 'expired' | 'unknown';
+
+export interface ValidityResult {
+  status: ValidityStatus;
+  message: string;
+}
+
+export interface ValiditySettings {
+  defaultMonths: number;
+  destinationMonths: Record<string, number>;
+  includeInExport: boolean;
+}
+
+export interface AgeBands {
+  infantUnder: number;
+  childUnder: number;
+  ageOn: 'departure' | 'return';
+}
+
+export interface AirlineAgeBands extends AgeBands {
+  airline: string;
+}
+
+export interface PassengerPolicy {
+  defaultBands: AgeBands;
+  airlineBands: AirlineAgeBands[];
+  adultFemaleTitle: 'MS' | 'MRS' | 'BY_AGE';
+  mrsFromAge: number;
+  minorTitles: boolean;
+}
+
+export type ExportColumnKey =
+  | 'index' | 'passengerType' | 'title' | 'firstName' | 'lastName' | 'gender' | 'passportNumber'
+  | 'nationality' | 'nationalityCode' | 'dateOfBirth' | 'issueDate' | 'expiryDate'
+  | 'validity' | 'age' | 'fullName' | 'gdsName';
+
+export interface ExportColumn {
+  key: ExportColumnKey;
+  header: string;
+}
+
+export type ExportDateFormat = 'DD/MM/YYYY' | 'DD-MM-YYYY' | 'DD.MM.YYYY' | 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD MMM YYYY' | 'DDMMMYY';
+
+export interface ExportTemplate {
+  id: string;
+  name: string;
+  columns: ExportColumn[];
+  dateFormat: ExportDateFormat;
+  headerFill: string; // RRGGBB
+  headerFont: string; // RRGGBB
+  includeTitleRows: boolean;
+  sheetNamePattern: string;
+  fileNamePattern: string;
+  builtIn?: boolean;
 }
 
+export type ExportFormat = 'xlsx' | 'csv' | 'json' | 'print';
+
 export enum ProcessingStatus {
   IDLE = 'IDLE',
   UPLOADING = 'UPLOADING',
@@ -30,3 +139,66 @@ export interface SortConfig {
   key: keyof PassportData | null;
   order: SortOrder;
 }
+
+export type DateField = 'dateOfBirth' | 'issueDate' | 'expiryDate';
+
+// Every criterion narrows the list further; empty values and 'all' match everything
+export interface FilterState {
+  search: string;
+  field: DateField;
+  startDate: string;
+  endDate: string;
+  validity: ValidityStatus | 'all';
+  status: PassportData['status'] | 'all';
+  passengerType: PassengerType | 'all';
+  nationality: string;
+  gender: string;
+  duplicatesOnly: boolean;
+  // Failed scans, MRZ mismatches, blocking validation errors and duplicates
+  issuesOnly: boolean;
+}
+
+export interface FilterView {
+  id: string;
+  name: string;
+  filters: FilterState;
+  builtIn?: boolean;
+}
+
+export type ExtractionProviderId = 'gemini' | 'fixture' | 'mrz-text';
+
+export interface ExtractionProvider {
+  id: ExtractionProviderId;
+  label: string;
+  // `original` is the file as uploaded when `file` is a preprocessed copy of it
+  extract: (file: File, signal?: AbortSignal, original?: File) => Promise<Partial<PassportData>>;
+}
+
+export interface ImageQuality {
+  // Variance of the Laplacian on a 512px greyscale copy; low means blurred
+  sharpness: number;
+  // Share of the page that is blown-out highlight, 0-1
+  glare: number;
+  width: number;
+  height: number;
+  cropped: boolean;
+  originalBytes: number;
+  bytes: number;
+}
+
+export interface PreprocessSettings {
+  enabled: boolean;
+  maxDimension: number;
+  jpegQuality: number;
+  autoCrop: boolean;
+  minSharpness: number;
+  maxGlare: number;
+}
+
+export interface ExtractionSettings {
+  provider: ExtractionProviderId;
+  geminiModel: string;
+  geminiPrompt: string;
+  concurrency: number;
+  maxRetries: number;
+}